@@ -0,0 +1,68 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { compareSchemas, formatSchemaChanges } from './breaking-changes';
+
+const PET = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', maxLength: 20 },
+        status: { type: 'string', enum: ['available', 'sold'] },
+        tag: { type: 'string' },
+    },
+    required: ['name'],
+};
+
+test('changes that accept fewer values break requests', () => {
+    const after = {
+        ...PET,
+        properties: { ...PET.properties, name: { type: 'string', maxLength: 10 }, status: { type: 'string', enum: ['available'] } },
+        required: ['name', 'tag'],
+    };
+    assert.deepStrictEqual(compareSchemas({ Pet: PET }, { Pet: after }), [
+        { schema: 'Pet', path: '.properties.name', description: 'maxLength changed from 20 to 10', breaking: ['request'] },
+        { schema: 'Pet', path: '.properties.status', description: 'enum values removed: "sold"', breaking: ['request'] },
+        { schema: 'Pet', path: '', description: 'property tag is now required', breaking: ['request'] },
+    ]);
+});
+
+test('changes that allow more values break responses', () => {
+    const after = {
+        ...PET,
+        properties: {
+            name: { type: 'string', maxLength: 30, nullable: true },
+            status: { type: 'string', enum: ['available', 'sold', 'pending'] },
+        },
+        required: [],
+    };
+    assert.deepStrictEqual(compareSchemas({ Pet: PET }, { Pet: after }), [
+        { schema: 'Pet', path: '.properties.name', description: 'now also allows null', breaking: ['response'] },
+        { schema: 'Pet', path: '.properties.name', description: 'maxLength changed from 20 to 30', breaking: ['response'] },
+        { schema: 'Pet', path: '.properties.status', description: 'enum values added: "pending"', breaking: ['response'] },
+        { schema: 'Pet', path: '', description: 'property tag removed', breaking: ['response'] },
+        { schema: 'Pet', path: '', description: 'property name is now optional', breaking: ['response'] },
+    ]);
+});
+
+test('changes that break both directions, and changes that break neither', () => {
+    const before = { Pet: PET, Tag: { type: 'string' }, Owner: { $ref: '#/components/schemas/Person' } };
+    const after = {
+        Pet: { ...PET, properties: { ...PET.properties, age: { type: 'integer' } }, additionalProperties: false },
+        Owner: { $ref: '#/components/schemas/User' },
+        Category: { type: 'string' },
+    };
+    const changes = compareSchemas(before, after);
+    assert.deepStrictEqual(changes, [
+        { schema: 'Pet', path: '', description: 'property age added', breaking: [] },
+        { schema: 'Pet', path: '', description: 'additional properties no longer allowed', breaking: ['request'] },
+        { schema: 'Tag', path: '', description: 'schema removed', breaking: ['request', 'response'] },
+        { schema: 'Owner', path: '', description: 'changed from Person to User', breaking: ['request', 'response'] },
+        { schema: 'Category', path: '', description: 'schema added', breaking: [] },
+    ]);
+    assert.deepStrictEqual(formatSchemaChanges(changes).split('\n'), [
+        '    Pet: property age added (non-breaking)',
+        '  ! Pet: additional properties no longer allowed (breaking for requests)',
+        '  ! Tag: schema removed (breaking for requests and responses)',
+        '  ! Owner: changed from Person to User (breaking for requests and responses)',
+        '    Category: schema added (non-breaking)',
+    ]);
+});
@@ -0,0 +1,250 @@
+import { isEqual, uniq } from 'lodash';
+
+export type Direction = 'request' | 'response';
+
+/** A single change of a schema, with the directions in which the change breaks existing clients */
+export type SchemaChange = {
+    schema: string;
+    /** the location of the change inside the schema, for example `.properties.status` */
+    path: string;
+    description: string;
+    /** empty when the change is not breaking */
+    breaking: Direction[];
+};
+
+type Schema = Record<string, unknown>;
+
+// a change that accepts fewer values breaks clients that send them, a change that allows more values breaks clients that receive them
+const NARROWER: Direction[] = ['request'];
+const WIDER: Direction[] = ['response'];
+const BOTH: Direction[] = ['request', 'response'];
+const NONE: Direction[] = [];
+
+// lower bounds: increasing them accepts fewer values, upper bounds: decreasing them accepts fewer values
+const LOWER_BOUNDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+const UPPER_BOUNDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+// keywords that restrict the values when they are added and allow more values when they are removed
+const RESTRICTIONS = ['pattern', 'format', 'multipleOf', 'uniqueItems', 'x-propertyNames', 'propertyNames'];
+
+/**
+ * Compares two versions of a set of (generated) schemas, as found in `components/schemas`, and classifies every change of a schema per
+ * direction. A schema that is used in a request body breaks clients when it accepts fewer values, a schema that is used in a response
+ * breaks clients when it allows more values.
+ */
+export function compareSchemas(before: Record<string, unknown>, after: Record<string, unknown>): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    for (const [name, schema] of Object.entries(before)) {
+        if (!(name in after)) {
+            changes.push({ schema: name, path: '', description: 'schema removed', breaking: BOTH });
+        } else {
+            changes.push(...new SchemaComparison(name).compare(asSchema(schema), asSchema(after[name]), ''));
+        }
+    }
+    for (const name of Object.keys(after)) {
+        if (!(name in before)) {
+            changes.push({ schema: name, path: '', description: 'schema added', breaking: NONE });
+        }
+    }
+    return changes;
+}
+
+/** Formats the changes as a human readable report, one line per change */
+export function formatSchemaChanges(changes: SchemaChange[]) {
+    return changes
+        .map(({ schema, path, description, breaking }) => {
+            const classification = breaking.length
+                ? `breaking for ${breaking.map(direction => `${direction}s`).join(' and ')}`
+                : 'non-breaking';
+            return `  ${breaking.length ? '!' : ' '} ${schema}${path}: ${description} (${classification})`;
+        })
+        .join('\n');
+}
+
+/** Compares two versions of the same schema, recursing into nested schemas */
+class SchemaComparison {
+    private readonly changes: SchemaChange[] = [];
+
+    constructor(private readonly schema: string) {}
+
+    compare(before: Schema, after: Schema, path: string) {
+        if (isEqual(before, after)) return this.changes;
+        if (before['$ref'] !== after['$ref']) {
+            this.change(path, `changed from ${describe(before)} to ${describe(after)}`, BOTH);
+            return this.changes;
+        }
+        this.compareTypes(before, after, path);
+        this.compareValues(before, after, path);
+        this.compareBounds(before, after, path);
+        this.compareProperties(before, after, path);
+        if (isObject(before['items']) && isObject(after['items'])) {
+            this.compare(before['items'], after['items'], `${path}.items`);
+        }
+        for (const keyword of ['oneOf', 'anyOf'] as const) {
+            this.compareAlternatives(before, after, path, keyword);
+        }
+        const allOfBefore = asSchemas(before['allOf']);
+        const allOfAfter = asSchemas(after['allOf']);
+        allOfBefore.forEach((member, index) => {
+            const other = allOfAfter[index];
+            if (other) this.compare(member, other, `${path}.allOf[${index}]`);
+        });
+        if (allOfBefore.length !== allOfAfter.length) {
+            // every member of `allOf` restricts the values
+            this.change(path, `allOf changed from ${allOfBefore.length} to ${allOfAfter.length} members`, BOTH);
+        }
+        return this.changes;
+    }
+
+    private change(path: string, description: string, breaking: Direction[]) {
+        this.changes.push({ schema: this.schema, path, description, breaking });
+    }
+
+    private compareTypes(before: Schema, after: Schema, path: string) {
+        const typesBefore = types(before);
+        const typesAfter = types(after);
+        if (!typesBefore && !typesAfter) {
+            // e.g. a nullable `allOf` wrapper around a `$ref`
+            if (!!before['nullable'] !== !!after['nullable']) {
+                const nullable = !!after['nullable'];
+                this.change(path, nullable ? 'now also allows null' : 'no longer accepts null', nullable ? WIDER : NARROWER);
+            }
+            return;
+        }
+        if (!typesBefore || !typesAfter) {
+            const description = `type changed from ${typesBefore?.join(' | ') ?? 'any'} to ${typesAfter?.join(' | ') ?? 'any'}`;
+            this.change(path, description, BOTH);
+            return;
+        }
+        const removed = typesBefore.filter(type => !typesAfter.includes(type));
+        const added = typesAfter.filter(type => !typesBefore.includes(type));
+        if (removed.length) this.change(path, `no longer accepts ${removed.join(' | ')}`, NARROWER);
+        if (added.length) this.change(path, `now also allows ${added.join(' | ')}`, WIDER);
+    }
+
+    private compareValues(before: Schema, after: Schema, path: string) {
+        const valuesBefore = values(before);
+        const valuesAfter = values(after);
+        if (!valuesBefore && !valuesAfter) return;
+        if (!valuesBefore || !valuesAfter) {
+            const description = valuesAfter ? 'restricted to specific values' : 'no longer restricted to specific values';
+            this.change(path, description, valuesAfter ? NARROWER : WIDER);
+            return;
+        }
+        const removed = valuesBefore.filter(value => !valuesAfter.some(other => isEqual(value, other)));
+        const added = valuesAfter.filter(value => !valuesBefore.some(other => isEqual(value, other)));
+        if (removed.length) this.change(path, `enum values removed: ${removed.map(print).join(', ')}`, NARROWER);
+        if (added.length) this.change(path, `enum values added: ${added.map(print).join(', ')}`, WIDER);
+    }
+
+    private compareBounds(before: Schema, after: Schema, path: string) {
+        for (const keyword of [...LOWER_BOUNDS, ...UPPER_BOUNDS]) {
+            const valueBefore = before[keyword];
+            const valueAfter = after[keyword];
+            if (isEqual(valueBefore, valueAfter)) continue;
+            const description = `${keyword} changed from ${valueBefore ?? 'none'} to ${valueAfter ?? 'none'}`;
+            if (typeof valueBefore === 'boolean' || typeof valueAfter === 'boolean') {
+                // the boolean `exclusiveMinimum` and `exclusiveMaximum` of OpenAPI 3.0
+                this.change(path, description, valueAfter ? NARROWER : WIDER);
+            } else if (valueBefore === undefined || valueAfter === undefined) {
+                this.change(path, description, valueAfter === undefined ? WIDER : NARROWER);
+            } else {
+                const increased = Number(valueAfter) > Number(valueBefore);
+                const tighter = LOWER_BOUNDS.includes(keyword) ? increased : !increased;
+                this.change(path, description, tighter ? NARROWER : WIDER);
+            }
+        }
+        for (const keyword of RESTRICTIONS) {
+            const valueBefore = before[keyword];
+            const valueAfter = after[keyword];
+            if (isEqual(valueBefore, valueAfter)) continue;
+            const description = `${keyword} changed from ${print(valueBefore)} to ${print(valueAfter)}`;
+            this.change(path, description, valueBefore === undefined ? NARROWER : valueAfter === undefined ? WIDER : BOTH);
+        }
+    }
+
+    private compareProperties(before: Schema, after: Schema, path: string) {
+        const propertiesBefore = asSchemaMap(before['properties']);
+        const propertiesAfter = asSchemaMap(after['properties']);
+        const requiredBefore = asStrings(before['required']);
+        const requiredAfter = asStrings(after['required']);
+        const closedBefore = before['additionalProperties'] === false;
+        const closedAfter = after['additionalProperties'] === false;
+        for (const [name, property] of Object.entries(propertiesBefore)) {
+            const other = propertiesAfter[name];
+            if (other) {
+                this.compare(property, other, `${path}.properties.${name}`);
+            } else {
+                // clients can no longer rely on the property in responses, and can no longer send it when other properties are not allowed
+                this.change(path, `property ${name} removed`, closedAfter ? BOTH : WIDER);
+            }
+        }
+        for (const name of Object.keys(propertiesAfter)) {
+            // a new property is only breaking when it is required, which is reported below
+            if (!(name in propertiesBefore)) this.change(path, `property ${name} added`, NONE);
+        }
+        for (const name of requiredAfter.filter(name => !requiredBefore.includes(name))) {
+            this.change(path, `property ${name} is now required`, NARROWER);
+        }
+        for (const name of requiredBefore.filter(name => !requiredAfter.includes(name))) {
+            this.change(path, `property ${name} is now optional`, WIDER);
+        }
+        if (closedBefore !== closedAfter) {
+            const description = closedAfter ? 'additional properties no longer allowed' : 'additional properties now allowed';
+            this.change(path, description, closedAfter ? NARROWER : WIDER);
+        } else if (isObject(before['additionalProperties']) && isObject(after['additionalProperties'])) {
+            this.compare(before['additionalProperties'], after['additionalProperties'], `${path}.additionalProperties`);
+        }
+    }
+
+    // members of `oneOf` and `anyOf` are alternatives, removing one accepts fewer values and adding one allows more values
+    private compareAlternatives(before: Schema, after: Schema, path: string, keyword: 'oneOf' | 'anyOf') {
+        const membersBefore = asSchemas(before[keyword]);
+        const membersAfter = asSchemas(after[keyword]);
+        const removed = membersBefore.filter(member => !membersAfter.some(other => isEqual(member, other)));
+        const added = membersAfter.filter(member => !membersBefore.some(other => isEqual(member, other)));
+        if (removed.length) this.change(path, `${keyword} no longer accepts ${removed.map(describe).join(', ')}`, NARROWER);
+        if (added.length) this.change(path, `${keyword} now also allows ${added.map(describe).join(', ')}`, WIDER);
+    }
+}
+
+// the types that the schema accepts, `nullable` of OpenAPI 3.0 is handled as the `null` type of OpenAPI 3.1
+function types(schema: Schema) {
+    const type = schema['type'];
+    if (type === undefined) return undefined;
+    const result = Array.isArray(type) ? type.map(String) : [String(type)];
+    return uniq(schema['nullable'] === true ? [...result, 'null'] : result);
+}
+
+function values(schema: Schema): unknown[] | undefined {
+    if ('const' in schema) return [schema['const']];
+    return Array.isArray(schema['enum']) ? schema['enum'] : undefined;
+}
+
+function describe(schema: Schema) {
+    if (typeof schema['$ref'] === 'string') return schema['$ref'].replace(/^.*\//, '');
+    return types(schema)?.join(' | ') ?? JSON.stringify(schema);
+}
+
+function print(value: unknown) {
+    return value === undefined ? 'none' : JSON.stringify(value);
+}
+
+function isObject(value: unknown): value is Schema {
+    return typeof value === 'object' && !!value && !Array.isArray(value);
+}
+
+function asSchema(value: unknown): Schema {
+    return isObject(value) ? value : {};
+}
+
+function asSchemas(value: unknown) {
+    return Array.isArray(value) ? value.map(asSchema) : [];
+}
+
+function asSchemaMap(value: unknown): Record<string, Schema> {
+    return isObject(value) ? (value as Record<string, Schema>) : {};
+}
+
+function asStrings(value: unknown) {
+    return Array.isArray(value) ? value.map(String) : [];
+}
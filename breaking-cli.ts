@@ -0,0 +1,84 @@
+#!/usr/bin/env ts-node
+
+import chalk from 'chalk';
+import { execFile } from 'child_process';
+import { promises } from 'fs';
+import { load } from 'js-yaml';
+import path from 'path';
+import { promisify } from 'util';
+import { compareSchemas, formatSchemaChanges, SchemaChange } from './breaking-changes';
+
+const ARGS = process.argv.slice(2);
+const FILES = ARGS.filter(arg => !arg.startsWith('--'));
+// --against=<git ref>: compare the given (generated) files with their version in the given git ref
+const AGAINST = ARGS.find(arg => arg.startsWith('--against='))?.split('=')[1];
+if (AGAINST ? !FILES.length : FILES.length !== 2) {
+    console.log(chalk.redBright('Supply the old and new (generated) types file, or one or more types files and --against=<git ref>'));
+    process.exit(1);
+}
+
+(async () => {
+    const [OLD_FILE = '', NEW_FILE = ''] = FILES;
+    if (AGAINST) {
+        await verifyRef(AGAINST, path.dirname(path.resolve(OLD_FILE)));
+    }
+    // the files are read one comparison at a time, so a failing read is reported instead of becoming an unhandled rejection
+    const comparisons = AGAINST
+        ? FILES.map(file => ({ file, before: () => gitVersion(file, AGAINST), after: () => readFile(file) }))
+        : [{ file: NEW_FILE, before: () => readFile(OLD_FILE), after: () => readFile(NEW_FILE) }];
+
+    const changes: SchemaChange[] = [];
+    for (const { file, before, after } of comparisons) {
+        const fileChanges = compareSchemas(schemas(await before()), schemas(await after()));
+        if (fileChanges.length) {
+            console.log(chalk.bold(file));
+            console.log(formatSchemaChanges(fileChanges));
+        }
+        changes.push(...fileChanges);
+    }
+    const breaking = changes.filter(change => change.breaking.length);
+    if (breaking.length) {
+        console.log(chalk.redBright(`${breaking.length} breaking change(s)`));
+        process.exit(1);
+    }
+    console.log(chalk.greenBright(changes.length ? 'no breaking changes' : 'no changes'));
+})().catch(e => {
+    console.log(chalk.redBright(String(e)));
+    process.exit(1);
+});
+
+// fails when the ref is not a commit, so a bad ref is not mistaken for files that do not exist in that ref
+async function verifyRef(ref: string, cwd: string) {
+    try {
+        await git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], cwd);
+    } catch (e) {
+        // git exits with 1 when the ref cannot be resolved, other problems (e.g. git is not installed) are reported as they are
+        throw (e as { code?: unknown }).code === 1 ? `${ref} is not a commit` : e;
+    }
+}
+
+// the contents of the file in the given git ref, a file that did not exist yet has no schemas
+async function gitVersion(file: string, ref: string) {
+    try {
+        const { stdout } = await git(['show', `${ref}:./${path.basename(file)}`], path.dirname(path.resolve(file)));
+        return stdout;
+    } catch (e) {
+        if (!/does not exist in|exists on disk, but not in/.test((e as { stderr?: string }).stderr ?? '')) throw e;
+        console.log(chalk.gray(`${file} does not exist in ${ref}`));
+        return '';
+    }
+}
+
+// the messages of git are not translated, so `gitVersion` can recognize them
+function git(args: string[], cwd: string) {
+    return promisify(execFile)('git', args, { cwd, env: { ...process.env, LC_ALL: 'C' }, maxBuffer: 64 * 1024 * 1024 });
+}
+
+function readFile(file: string) {
+    return promises.readFile(file, 'utf8');
+}
+
+function schemas(source: string) {
+    const doc = load(source) as { components?: { schemas?: Record<string, unknown> } } | undefined;
+    return doc?.components?.schemas ?? {};
+}
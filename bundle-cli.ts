@@ -0,0 +1,42 @@
+#!/usr/bin/env ts-node
+
+import chalk from 'chalk';
+import { promises } from 'fs';
+import path from 'path';
+import { bundleSpec } from './spec-bundler';
+
+const ARGS = process.argv.slice(2);
+const [OPENAPI_FILE, OUTPUT_FILE] = ARGS.filter(arg => !arg.startsWith('--'));
+// --strip-annotations: remove the `x-skunkteam-*` extensions from the bundled spec
+const STRIP_ANNOTATIONS = ARGS.includes('--strip-annotations');
+// --shared-types=<file>: generate a single types file for all spec files instead of a types file per spec file
+const SHARED_TYPES = ARGS.find(arg => arg.startsWith('--shared-types='))?.split('=')[1];
+// --naming=module: name the schemas after the module and the type (e.g. `pets.Pet`) instead of only the type
+const NAMING = ARGS.find(arg => arg.startsWith('--naming='))?.split('=')[1] === 'module' ? 'module' : 'type';
+// --preserve-intersections: generate intersections as `allOf` composition instead of flattening them to a single object
+const PRESERVE_INTERSECTIONS = ARGS.includes('--preserve-intersections');
+// --read-write-variants: generate an input variant (e.g. `PetInput`) of schemas with readOnly or writeOnly properties for request bodies
+const READ_WRITE_VARIANTS = ARGS.includes('--read-write-variants');
+if (!OPENAPI_FILE || !OUTPUT_FILE) {
+    console.log(chalk.redBright('Supply path to openapi yaml file as first argument and path to the bundled yaml or json file as second'));
+    process.exit(1);
+}
+
+(async () => {
+    const { bundle, errors } = await bundleSpec(OPENAPI_FILE, OUTPUT_FILE, {
+        stripAnnotations: STRIP_ANNOTATIONS,
+        sharedTypesFile: SHARED_TYPES && path.resolve(SHARED_TYPES),
+        naming: NAMING,
+        preserveIntersections: PRESERVE_INTERSECTIONS,
+        readWriteVariants: READ_WRITE_VARIANTS,
+    });
+    if (!bundle) {
+        errors.forEach(error => console.log(chalk.redBright(error.message)));
+        process.exit(1);
+    }
+    await promises.writeFile(bundle.file, bundle.text, 'utf8');
+    console.log(chalk.greenBright(`wrote ${bundle.file}`));
+})().catch(e => {
+    console.log(chalk.redBright(String(e)));
+    process.exit(1);
+});
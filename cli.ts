@@ -1,127 +1,185 @@
 #!/usr/bin/env ts-node
 
-import SwaggerParser from '@apidevtools/swagger-parser';
-import { isType, printValue } from '@skunkteam/types';
-import assert from 'assert';
 import chalk from 'chalk';
-import { constants, promises } from 'fs';
-import { dump } from 'js-yaml';
-import type { OpenAPI, OpenAPIV3 } from 'openapi-types';
+import { constants, promises, unwatchFile, watchFile } from 'fs';
+import { load } from 'js-yaml';
 import pMap from 'p-map';
 import path from 'path';
-import { generateSchemas, TypeDefs } from './openapi-definitions-generator';
+import { invalidateModule, moduleDependencies } from './module-cache';
+import { diffSpecs, formatChanges } from './spec-diff';
+import { generateFromSpec, SpecGenerationError, SpecGeneratorOptions, WritableFile } from './spec-generator';
 
-const [, , OPENAPI_FILE] = process.argv;
+const ARGS = process.argv.slice(2);
+const [OPENAPI_FILE] = ARGS.filter(arg => !arg.startsWith('--'));
+// --check: do not write any files, but fail when any of the generated files is outdated
+const CHECK = ARGS.includes('--check');
+// --dry-run: do not write any files, but print what would have been written
+const DRY_RUN = ARGS.includes('--dry-run');
+// --watch: keep running and regenerate the affected files whenever a spec file or a (type) module that it uses changes
+const WATCH = ARGS.includes('--watch');
+// --preserve-intersections: generate intersections as `allOf` composition instead of flattening them to a single object
+const PRESERVE_INTERSECTIONS = ARGS.includes('--preserve-intersections');
+// --read-write-variants: generate an input variant (e.g. `PetInput`) of schemas with readOnly or writeOnly properties for request bodies
+const READ_WRITE_VARIANTS = ARGS.includes('--read-write-variants');
+// --shared-types=<file>: generate a single types file for all spec files instead of a types file per spec file
+const SHARED_TYPES = ARGS.find(arg => arg.startsWith('--shared-types='))?.split('=')[1];
+// --naming=module: name the schemas after the module and the type (e.g. `pets.Pet`) instead of only the type
+const NAMING = ARGS.find(arg => arg.startsWith('--naming='))?.split('=')[1] === 'module' ? 'module' : 'type';
 if (!OPENAPI_FILE) {
     console.log(chalk.redBright('Supply path to openapi yaml file as first argument'));
     process.exit(1);
 }
 
+const OPTIONS: SpecGeneratorOptions = {
+    preserveIntersections: PRESERVE_INTERSECTIONS,
+    sharedTypesFile: SHARED_TYPES && path.resolve(SHARED_TYPES),
+    naming: NAMING,
+    readWriteVariants: READ_WRITE_VARIANTS,
+};
 const CONCURRENCY = 10;
+const WATCH_INTERVAL = 300;
 
 (async () => {
     await promises.access(OPENAPI_FILE, constants.R_OK);
-    const files = await findSpecFiles(OPENAPI_FILE);
+    if (WATCH) {
+        return watch(OPENAPI_FILE);
+    }
 
     // for each referenced openapi file, decide if it contains `x-skunkteam-type` annotations
-    // first collect all changes, so we can throw any errors before we start replacing files on disk
-    const pendingWrites = await pMap(files, processFile, { concurrency: CONCURRENCY });
+    // first collect all changes, so we can report any errors before we start replacing files on disk
+    const { files: pendingWrites, errors } = await generateFromSpec(OPENAPI_FILE, OPTIONS);
+    if (errors.length) {
+        reportErrors(errors);
+        process.exit(1);
+    }
+
+    if (CHECK) {
+        const outdated = (await pMap(pendingWrites, checkFile, { concurrency: CONCURRENCY })).filter(Boolean);
+        if (outdated.length) {
+            console.log(chalk.redBright(`${outdated.length} file(s) are outdated, run this tool to regenerate them`));
+            process.exit(1);
+        }
+        console.log(chalk.greenBright('all files are up to date'));
+        return;
+    }
+    if (DRY_RUN) {
+        pendingWrites.forEach(({ file, text }) => console.log(chalk.bold(`# ${file}`), '\n' + text));
+        return;
+    }
 
     // safe to write all files now that we know we could process all yaml's
-    await pMap(pendingWrites.flat(), writeFile, { concurrency: CONCURRENCY });
+    await pMap(pendingWrites, writeFile, { concurrency: CONCURRENCY });
 })().catch(e => {
     console.log(chalk.redBright(String(e)));
     process.exit(1);
 });
 
+async function writeFile({ file, contents, text }: WritableFile) {
+    console.log(file, contents);
+    await promises.writeFile(file, text, 'utf8');
+    console.log(chalk.greenBright(`wrote ${file}`));
+}
+
+/** compares the pending contents with the file on disk, reports the differences and returns whether the file is outdated */
+async function checkFile({ file, contents, text }: WritableFile) {
+    const current = await promises.readFile(file, 'utf8').catch(() => undefined);
+    if (current === text) {
+        return false;
+    }
+    if (current === undefined) {
+        console.log(chalk.yellowBright(`${file} is missing`));
+        return true;
+    }
+    const changes = diffSpecs(load(current), JSON.parse(JSON.stringify(contents)));
+    console.log(chalk.yellowBright(`${file} is outdated:`));
+    console.log(changes.length ? formatChanges(changes) : '  (formatting only)');
+    return true;
+}
+
 /**
- * returns the absolute path to the given openapi yaml file, as well as the absolute paths to all the openapi yaml files that are
- * (indirectly) references using $ref. Does not include externally referenced files over http
+ * Regenerates all files and keeps watching the spec files and the modules that are loaded for the `x-skunkteam-type` annotations.
+ * Whenever one of them changes, only the spec files that are affected by the change are regenerated.
  */
-async function findSpecFiles(main: string) {
-    const parser = new SwaggerParser();
-    // dereferences all external paths, so we discover all (nested) references to other openapi files
-    await parser.dereference(main);
-    return parser.$refs.paths('file');
-}
+async function watch(main: string) {
+    // the modules of this tool itself are never reloaded
+    const ownModules = new Set(Object.keys(require.cache));
+    const watchedFiles = new Set<string>();
+    let specFiles: string[] = [];
+    // the (absolute paths of the) modules that were loaded for the `x-skunkteam-type` annotations, per spec file
+    const loadedModules = new Map<string, string[]>();
+    let pendingSpecs = new Set<string>();
+    let running: Promise<void> | undefined;
 
-type WritableFile = { file: string; contents: OpenAPIV3.Document };
+    await regenerate();
 
-async function processFile(file: string): Promise<Array<WritableFile>> {
-    // only parse (do not resolve) as we need to reconstruct original yaml as much as possible
-    const api = await new SwaggerParser().parse(file);
-    assert(isOpenAPIV3(api), 'only supports OpenAPI v3.0');
-    const types: TypeDefs = {}; // where `processTypeAnnotation` is going to collect all x-skunkteam-type's it encounters
-    await processTypeAnnotation(api); // recursive processing of all elements in openapi yaml
+    // regenerates the given spec files, or all spec files when none are given
+    async function regenerate(specs?: string[]) {
+        try {
+            // the set of spec files might have changed if a $ref was added or removed
+            const result = await generateFromSpec(main, { ...OPTIONS, only: specs });
+            // keep watching the previous spec files when the main spec file could not be parsed
+            if (result.specFiles.length) specFiles = result.specFiles;
+            result.modules.forEach((modules, spec) => loadedModules.set(spec, modules));
+            reportErrors(result.errors);
+            // only write files that have changed, also prevents endless loops because we are watching the files we write
+            const changedFiles = await pMap(result.files, async pending => ((await isOutdated(pending)) ? [pending] : []));
+            await pMap(changedFiles.flat(), writeFile, { concurrency: CONCURRENCY });
+        } catch (e) {
+            console.log(chalk.redBright(String(e)));
+        }
+        updateWatchers();
+        console.log(chalk.gray('watching for changes...'));
+    }
 
-    if (!Object.keys(types).length) {
-        return []; // no x-skunkteam-types found, no need to (re)write files
+    function updateWatchers() {
+        const loaded = [...loadedModules.values()].flat();
+        const modules = moduleDependencies(loaded, ownModules);
+        const files = new Set([...specFiles, ...modules]);
+        for (const file of watchedFiles) {
+            if (!files.has(file)) {
+                unwatchFile(file);
+                watchedFiles.delete(file);
+            }
+        }
+        for (const file of files) {
+            if (!watchedFiles.has(file)) {
+                watchFile(file, { interval: WATCH_INTERVAL }, (curr, prev) => curr.mtimeMs !== prev.mtimeMs && onChange(file));
+                watchedFiles.add(file);
+            }
+        }
     }
-    console.log(chalk.gray(`found ${Object.keys(types).length} schemas in ${file}`));
-    return [
-        {
-            file,
-            contents: api,
-        },
-        {
-            file: typesFileExtension(file),
-            contents: {
-                openapi: '3.0.0',
-                info: { ...api.info, title: `Types for ${api.info.title}` },
-                paths: {},
-                ...generateSchemas('components/schemas', types),
-            },
-        },
-    ];
-
-    // Process a node in an openapi yaml (and recurse into the children of the node).
-    // Collect any type references that are found (having x-skunkteam-types annotation)
-    async function processTypeAnnotation(object: unknown) {
-        if (Array.isArray(object)) {
-            // recurse into array elements
-            await Promise.all(object.map(processTypeAnnotation));
-        } else if (typeof object === 'object' && !!object) {
-            // recurse into all properties of an object
-            await Promise.all(Object.values(object).map(processTypeAnnotation));
-            // and see if the object has a x-skunkteam-type annotation. If so, collect the type
-            if (hasProperty(object, 'x-skunkteam-type') && typeof object['x-skunkteam-type'] === 'string') {
-                const [libName, typeName] = object['x-skunkteam-type'].split('#');
-                assert(libName);
-                assert(typeName, 'x-skunkteam-type annotation should be in format <module>#<type>, for example ./foo.ts#User');
-                const lib = await import(libName).catch(e => {
-                    console.log(chalk.redBright(`Could not load lib: ${libName} (check your ts-node version)`));
-                    console.error(e);
-                    process.exit(1);
-                });
-                const type = lib[typeName];
-                assert(isType(type), `Library ${libName} does not export a type with name ${typeName}, got: ${printValue(type)}`);
-                if (types[typeName] && types[typeName] !== type) {
-                    throw new Error(`duplicate types named "${typeName}"`);
+
+    function onChange(file: string) {
+        if (specFiles.includes(file)) {
+            pendingSpecs.add(file);
+        } else {
+            // a module has changed, find all spec files that (indirectly) use it before removing it from the module cache
+            for (const [spec, modules] of loadedModules) {
+                if (moduleDependencies(modules, ownModules).has(file)) {
+                    pendingSpecs.add(spec);
                 }
-                // remember the found type, so we can convert them all to openapi schema definitions
-                types[typeName] = type;
-                // add a $ref to the object in the openapi spec so it references the (to be) generated openapi schema
-                (object as any)['$ref'] = `./${typesFileExtension(path.basename(file))}#/components/schemas/${typeName}`;
             }
+            invalidateModule(file, ownModules);
         }
+        void scheduleRegenerate();
     }
-}
 
-async function writeFile({ file, contents }: WritableFile) {
-    console.log(file, contents);
-    const yaml = dump(contents, { noRefs: true, lineWidth: 140 });
-    await promises.writeFile(file, yaml, 'utf8');
-    console.log(chalk.greenBright(`wrote ${file}`));
-}
-
-function isOpenAPIV3(doc: OpenAPI.Document): doc is OpenAPIV3.Document {
-    return 'openapi' in doc && (doc.openapi === '3.0' || doc.openapi.startsWith('3.0.'));
+    // makes sure we never regenerate concurrently, changes that happen during a run are processed in the next run
+    async function scheduleRegenerate() {
+        while (running) await running;
+        if (!pendingSpecs.size) return;
+        const specs = [...pendingSpecs];
+        pendingSpecs = new Set();
+        console.log(chalk.gray(`regenerating ${specs.join(', ')}`));
+        running = regenerate(specs).finally(() => (running = undefined));
+    }
 }
 
-function typesFileExtension(filename: string) {
-    return filename.replace(/\.yaml$/, '.types.yaml').replace(/\.yml$/, '.types.yml');
+async function isOutdated({ file, text }: WritableFile) {
+    const current = await promises.readFile(file, 'utf8').catch(() => undefined);
+    return current !== text;
 }
 
-function hasProperty<T, P extends PropertyKey>(obj: T, key: P): obj is T & Record<P, unknown> {
-    return typeof obj === 'object' && obj && key in obj;
+function reportErrors(errors: SpecGenerationError[]) {
+    errors.forEach(error => console.log(chalk.redBright(error.message)));
 }
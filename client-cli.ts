@@ -0,0 +1,25 @@
+#!/usr/bin/env ts-node
+
+import chalk from 'chalk';
+import { promises } from 'fs';
+import { generateClientSource } from './client-generator';
+import { loadOperations } from './spec-operations';
+
+const [OPENAPI_FILE, CLIENT_FILE] = process.argv.slice(2);
+if (!OPENAPI_FILE || !CLIENT_FILE) {
+    console.log(
+        chalk.redBright('Supply path to openapi yaml file as first argument and path to the typescript file to generate as second'),
+    );
+    process.exit(1);
+}
+
+(async () => {
+    const { operations } = await loadOperations(OPENAPI_FILE);
+    console.log(chalk.gray(`found ${operations.length} operations in ${OPENAPI_FILE}`));
+    const source = generateClientSource(operations, CLIENT_FILE);
+    await promises.writeFile(CLIENT_FILE, source + '\n', 'utf8');
+    console.log(chalk.greenBright(`wrote ${CLIENT_FILE}`));
+})().catch(e => {
+    console.log(chalk.redBright(String(e)));
+    process.exit(1);
+});
@@ -0,0 +1,155 @@
+import { ValidationError } from '@skunkteam/types';
+import assert from 'assert';
+import { promises } from 'fs';
+import { test } from 'node:test';
+import path from 'path';
+import ts from 'typescript';
+import { ClientGenerationError, generateClientSource } from './client-generator';
+import { loadOperations, SpecOperation } from './spec-operations';
+
+type Request = { url: string; init: { method: string; headers: Record<string, string>; body?: string } };
+type ClientModule = {
+    createClient(options: {
+        baseUrl: string;
+        fetch: (url: string, init: Request['init']) => Promise<unknown>;
+        headers?: object;
+    }): Record<string, (params?: object) => Promise<unknown>>;
+    ApiError: new (status: number, body: unknown) => Error & { status: number; body: unknown };
+};
+
+const BASE_URL = 'https://petstore.example.com/v1/';
+
+const TOYS_SPEC = `
+openapi: 3.0.3
+info: { title: toys, version: '1' }
+paths:
+  /pets/{petId}/toys:
+    get:
+      operationId: listToys
+      parameters:
+        - { name: petId, in: path, required: true, schema: { type: string } }
+        - { name: tags, in: query, schema: { type: array, items: { type: string } } }
+        - { name: limit, in: query, schema: { type: integer } }
+        - { name: X-Request-Id, in: header, schema: { type: string } }
+      responses:
+        '200':
+          description: the toys
+          content: { application/json: { schema: { x-skunkteam-type: ../types.ts#Tag } } }
+`;
+
+test('the client of the example spec sends the body and validates the response', async () => {
+    await withClient('openapi.yml', async ({ createClient, ApiError }) => {
+        const pet = { name: 'Rex', photoUrls: [] };
+        const stub = stubFetch(200, pet);
+        const client = createClient({ baseUrl: BASE_URL, fetch: stub.fetch });
+        assert.deepStrictEqual(await client['postPet']?.({ body: pet }), pet);
+        assert.deepStrictEqual(stub.requests, [
+            {
+                url: 'https://petstore.example.com/v1/pet',
+                init: {
+                    method: 'POST',
+                    headers: { 'accept': 'application/json', 'content-type': 'application/json' },
+                    body: JSON.stringify(pet),
+                },
+            },
+        ]);
+
+        const invalid = createClient({ baseUrl: BASE_URL, fetch: stubFetch(200, { name: 'Rex' }).fetch });
+        await assert.rejects(invalid['postPet']?.({ body: pet }) ?? Promise.resolve(), ValidationError);
+
+        const failing = createClient({ baseUrl: BASE_URL, fetch: stubFetch(405, { message: 'invalid input' }).fetch });
+        await assert.rejects(failing['postPet']?.({ body: pet }) ?? Promise.resolve(), (e: unknown) => {
+            assert.ok(e instanceof ApiError);
+            assert.strictEqual(e.status, 405);
+            assert.deepStrictEqual(e.body, { message: 'invalid input' });
+            return true;
+        });
+    });
+});
+
+test('path, query and header parameters are encoded', async () => {
+    const dir = await promises.mkdtemp(path.join(__dirname, '.client-generator-'));
+    try {
+        await promises.writeFile(path.join(dir, 'toys.yml'), TOYS_SPEC, 'utf8');
+        await withClient(path.join(dir, 'toys.yml'), async ({ createClient }) => {
+            const stub = stubFetch(200, { name: 'ball' });
+            const client = createClient({ baseUrl: BASE_URL, fetch: stub.fetch, headers: { authorization: 'secret' } });
+            await client['listToys']?.({ 'petId': 'a/b', 'tags': ['x', 'y z'], 'limit': 2, 'X-Request-Id': 'r1' });
+            await client['listToys']?.({ petId: '1' });
+            assert.deepStrictEqual(
+                stub.requests.map(({ url, init }) => [url, init.headers]),
+                [
+                    [
+                        'https://petstore.example.com/v1/pets/a%2Fb/toys?tags=x&tags=y+z&limit=2',
+                        { 'authorization': 'secret', 'accept': 'application/json', 'X-Request-Id': 'r1' },
+                    ],
+                    ['https://petstore.example.com/v1/pets/1/toys', { authorization: 'secret', accept: 'application/json' }],
+                ],
+            );
+        });
+    } finally {
+        await promises.rm(dir, { recursive: true, force: true });
+    }
+});
+
+test('the path parameters should match the parameters in the path', () => {
+    const operation: SpecOperation = { path: '/pets/{petId}', method: 'get', parameters: [], responses: {} };
+    assert.throws(() => generateClientSource([operation], 'client.ts'), ClientGenerationError);
+    const unused: SpecOperation = {
+        path: '/pets',
+        method: 'get',
+        parameters: [{ name: 'petId', in: 'path', required: true }],
+        responses: {},
+    };
+    assert.throws(() => generateClientSource([unused], 'client.ts'), /GET \/pets: path parameter\(s\) petId do not occur in the path/);
+});
+
+test('construct is only generated when a response is validated', async () => {
+    const operation: SpecOperation = {
+        path: '/pets',
+        method: 'get',
+        parameters: [],
+        responses: { '200': { 'application/json': undefined } },
+    };
+    const dir = await promises.mkdtemp(path.join(__dirname, '.client-'));
+    try {
+        const clientFile = path.join(dir, 'client.ts');
+        const source = generateClientSource([operation], clientFile);
+        assert.ok(!source.includes('function construct'));
+        await promises.writeFile(clientFile, source, 'utf8');
+        const program = ts.createProgram([clientFile], {
+            noEmit: true,
+            strict: true,
+            noUnusedLocals: true,
+            target: ts.ScriptTarget.ES2019,
+        });
+        assert.deepStrictEqual(
+            ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')),
+            [],
+        );
+    } finally {
+        await promises.rm(dir, { recursive: true, force: true });
+    }
+});
+
+// generates the client of the spec next to this file, so it resolves @skunkteam/types like the other modules, and loads it
+async function withClient(specFile: string, fn: (client: ClientModule) => Promise<void>) {
+    const dir = await promises.mkdtemp(path.join(__dirname, '.client-'));
+    try {
+        const clientFile = path.join(dir, 'client.ts');
+        const { operations } = await loadOperations(path.resolve(__dirname, specFile));
+        await promises.writeFile(clientFile, generateClientSource(operations, clientFile), 'utf8');
+        await fn((await import(clientFile)) as ClientModule);
+    } finally {
+        await promises.rm(dir, { recursive: true, force: true });
+    }
+}
+
+function stubFetch(status: number, body: unknown) {
+    const requests: Request[] = [];
+    const fetch = async (url: string, init: Request['init']) => {
+        requests.push({ url, init });
+        return { status, text: async () => JSON.stringify(body) };
+    };
+    return { fetch, requests };
+}
@@ -0,0 +1,318 @@
+import { camelCase, uniq } from 'lodash';
+import type { OpenAPIV3 } from 'openapi-types';
+import path from 'path';
+import type { AnnotatedType } from './spec-generator';
+import type { AnnotatedContent, SpecOperation, SpecParameter } from './spec-operations';
+
+const INDENT = '    ';
+// the parameters that end up in the request, cookie parameters are not supported
+const PARAMETER_LOCATIONS = ['path', 'query', 'header'];
+
+/** An operation that a client function can not be generated for, e.g. because its path has a parameter that is not declared */
+export class ClientGenerationError extends Error {
+    override readonly name = 'ClientGenerationError';
+
+    constructor(readonly operation: Pick<SpecOperation, 'method' | 'path'>, readonly problem: string) {
+        super(`${operation.method.toUpperCase()} ${operation.path}: ${problem}`);
+    }
+}
+
+/**
+ * Generates the source of a TypeScript module with a client for the given operations (as loaded by `loadOperations`). The client has a
+ * function per operation with the types of the `x-skunkteam-type` annotations as the types of its parameters and result, responses are
+ * validated using `construct` of their annotated type. The imports of the types are relative to the given client file. Throws a
+ * `ClientGenerationError` when the parameters of an operation do not match the parameters in its path.
+ */
+export function generateClientSource(operations: SpecOperation[], clientFile: string) {
+    const imports = new ImportWriter(path.dirname(clientFile));
+    const names = new Set<string>();
+    const functions = operations.map(operation => {
+        const name = uniqueName(functionName(operation), names);
+        return new OperationWriter(operation, imports).write(name);
+    });
+    return [
+        imports.write(),
+        RUNTIME,
+        // only when it is used, so the client compiles with `noUnusedLocals`
+        ...(functions.some(({ validates }) => validates) ? [CONSTRUCT] : []),
+        'export function createClient({ baseUrl, fetch = globalFetch(), headers = {} }: ClientOptions) {',
+        `${INDENT}const request = requester(baseUrl, fetch, headers);`,
+        `${INDENT}return {`,
+        functions.map(({ source }) => indent(source, 2)).join('\n\n'),
+        `${INDENT}};`,
+        '}',
+    ].join('\n');
+}
+
+/** Collects the imports of the annotated types, types with the same name from different modules get an alias */
+class ImportWriter {
+    // the imported names per module (absolute path) and type name
+    private readonly imports = new Map<string, Map<string, string>>();
+    // the type names can not be the same as the names in the runtime code
+    private readonly used = new Set<string>(['The', 'Fetch', 'ClientOptions', 'ApiError', 'createClient', 'requester', 'construct']);
+
+    constructor(private readonly dir: string) {}
+
+    name({ module, typeName }: AnnotatedType) {
+        const names = this.imports.get(module) ?? new Map<string, string>();
+        this.imports.set(module, names);
+        let name = names.get(typeName);
+        if (!name) {
+            name = uniqueName(typeName, this.used);
+            names.set(typeName, name);
+        }
+        return name;
+    }
+
+    write() {
+        const lines = this.imports.size ? ["import type { The } from '@skunkteam/types';"] : [];
+        for (const [module, names] of [...this.imports].sort(([a], [b]) => byName(a, b))) {
+            const specifiers = [...names].map(([typeName, name]) => (typeName === name ? name : `${typeName} as ${name}`));
+            lines.push(`import { ${specifiers.sort(byName).join(', ')} } from '${this.specifier(module)}';`);
+        }
+        return lines.join('\n');
+    }
+
+    // the module path relative to the client file, without the `.ts` extension
+    private specifier(module: string) {
+        const relative = path
+            .relative(this.dir, module)
+            .split(path.sep)
+            .join('/')
+            .replace(/\.tsx?$/, '');
+        return relative.startsWith('.') ? relative : `./${relative}`;
+    }
+}
+
+/** Writes the function of a single operation */
+class OperationWriter {
+    constructor(private readonly operation: SpecOperation, private readonly imports: ImportWriter) {}
+
+    /** the source of the function, and whether it validates the response with `construct` */
+    write(name: string) {
+        const { operation } = this;
+        const parameters = operation.parameters.filter(parameter => PARAMETER_LOCATIONS.includes(parameter.in));
+        this.checkPathParameters(parameters);
+        const members = parameters.map(
+            parameter => `${propertyName(parameter.name)}${parameter.required ? '' : '?'}: ${this.parameterType(parameter)}`,
+        );
+        const body = operation.requestBody && this.contentType(operation.requestBody.content);
+        if (body) {
+            members.push(`body${operation.requestBody?.required ? '' : '?'}: ${body}`);
+        }
+        const required = parameters.some(parameter => parameter.required) || !!(body && operation.requestBody?.required);
+        const params = members.length ? `params: { ${members.join('; ')} }${required ? '' : ' = {}'}` : '';
+        const responses = successResponses(operation.responses);
+        const result = uniq(Object.values(responses).map(content => this.contentType(content) ?? 'void')).join(' | ') || 'void';
+        const validators = Object.entries(responses).flatMap(([status, content]) => {
+            const type = jsonContent(content);
+            return type ? [`${propertyName(status)}: ${this.imports.name(type)}`] : [];
+        });
+        const request = [
+            `request('${operation.method.toUpperCase()}', ${this.pathTemplate()}, {`,
+            ...(['query', 'header'] as const).map(location => `${INDENT}${location}: ${this.parameterValues(parameters, location)},`),
+            ...(body ? [`${INDENT}body: params.body,`] : []),
+            '})',
+        ];
+        const call = `await ${request.join('\n')}`;
+        const validates = result !== 'void' && validators.length > 0;
+        const validate = validates
+            ? `return construct(response, ${objectLiteral(validators)}) as ${result};`
+            : `return response.body as ${result};`;
+        const lines = result === 'void' ? [`${call};`] : [`const response = ${call};`, validate];
+        const source = [...docComment(operation), `async ${name}(${params}): Promise<${result}> {`, indent(lines.join('\n'), 1), '},'];
+        return { source: source.join('\n'), validates };
+    }
+
+    // every parameter in the path template should be declared as a path parameter and the other way around
+    private checkPathParameters(parameters: SpecParameter[]) {
+        const { operation } = this;
+        const inPath = [...operation.path.matchAll(/\{([^}]+)\}/g)].map(([, name = '']) => name);
+        const declared = parameters.filter(parameter => parameter.in === 'path').map(parameter => parameter.name);
+        const undeclared = inPath.filter(name => !declared.includes(name));
+        if (undeclared.length) {
+            throw new ClientGenerationError(operation, `path parameter(s) ${undeclared.join(', ')} are not declared`);
+        }
+        const unused = declared.filter(name => !inPath.includes(name));
+        if (unused.length) {
+            throw new ClientGenerationError(operation, `path parameter(s) ${unused.join(', ')} do not occur in the path`);
+        }
+    }
+
+    // `/pets/{petId}` becomes `/pets/${encodeURIComponent(String(params.petId))}`
+    private pathTemplate() {
+        const template = this.operation.path.replace(
+            /\{([^}]+)\}/g,
+            (_, name: string) => `\${encodeURIComponent(String(${access(name)}))}`,
+        );
+        return `\`${template.replace(/`/g, '\\`')}\``;
+    }
+
+    private parameterValues(parameters: SpecParameter[], location: 'query' | 'header') {
+        const entries = parameters.filter(parameter => parameter.in === location);
+        return objectLiteral(entries.map(parameter => `${propertyName(parameter.name)}: ${access(parameter.name)}`));
+    }
+
+    private parameterType(parameter: SpecParameter) {
+        return parameter.type ? `The<typeof ${this.imports.name(parameter.type)}>` : schemaType(parameter.schema);
+    }
+
+    // the type of json content, `unknown` for json content without annotation and `undefined` when there is no json content
+    private contentType(content: AnnotatedContent) {
+        const type = jsonContent(content);
+        if (type) return `The<typeof ${this.imports.name(type)}>`;
+        return Object.keys(content).some(isJson) ? 'unknown' : undefined;
+    }
+}
+
+// the code that all generated clients share
+const RUNTIME = `
+/** The part of the fetch API that the client uses, can be replaced to use another http client or a stub */
+export type Fetch = (
+    url: string,
+    init: { method: string; headers: Record<string, string>; body?: string },
+) => Promise<{ status: number; text(): Promise<string> }>;
+
+export type ClientOptions = {
+    baseUrl: string;
+    /** defaults to the global \`fetch\` */
+    fetch?: Fetch;
+    /** headers to add to every request */
+    headers?: Record<string, string>;
+};
+
+type RequestParameters = { query: Record<string, unknown>; header: Record<string, unknown>; body?: unknown };
+type ApiResponse = { status: number; body: unknown };
+
+/** A response with a status code outside of the 2xx range */
+export class ApiError extends Error {
+    override readonly name = 'ApiError';
+
+    constructor(readonly status: number, readonly body: unknown) {
+        super(\`request failed with status \${status}\`);
+    }
+}
+
+function requester(baseUrl: string, fetch: Fetch, defaultHeaders: Record<string, string>) {
+    return async (method: string, path: string, { query, header, body }: RequestParameters): Promise<ApiResponse> => {
+        const search = new URLSearchParams();
+        for (const [name, value] of Object.entries(query)) {
+            // arrays use the default (form, exploded) style, \`?id=1&id=2\`
+            for (const item of Array.isArray(value) ? value : [value]) {
+                if (item !== undefined) search.append(name, String(item));
+            }
+        }
+        const headers: Record<string, string> = { ...defaultHeaders, accept: 'application/json' };
+        for (const [name, value] of Object.entries(header)) {
+            if (value !== undefined) headers[name] = Array.isArray(value) ? value.join(',') : String(value);
+        }
+        if (body !== undefined) headers['content-type'] = 'application/json';
+        const url = baseUrl.replace(/\\/$/, '') + path + (search.toString() ? \`?\${search}\` : '');
+        const response = await fetch(url, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+        const text = await response.text();
+        let json: unknown = text || undefined;
+        try {
+            json = text ? JSON.parse(text) : undefined;
+        } catch {
+            // not a json response
+        }
+        if (response.status < 200 || response.status >= 300) {
+            throw new ApiError(response.status, json);
+        }
+        return { status: response.status, body: json };
+    };
+}
+
+function globalFetch(): Fetch {
+    const { fetch } = globalThis as { fetch?: Fetch };
+    if (!fetch) throw new Error('no global fetch available, supply a fetch function');
+    return fetch;
+}
+`;
+
+const CONSTRUCT = `
+// validates the response body with the type of its status code
+function construct({ status, body }: ApiResponse, types: Record<string, { construct(input: unknown): unknown }>) {
+    const type = types[status] ?? types[\`\${String(status)[0]}XX\`] ?? types['default'];
+    return type ? type.construct(body) : body;
+}
+`;
+
+// the successful responses, `default` only counts when no successful status code is documented
+function successResponses(responses: SpecOperation['responses']) {
+    const success = Object.entries(responses).filter(([status]) => /^2(\d\d|XX)$/i.test(status));
+    const defaultResponse = responses['default'];
+    return Object.fromEntries(!success.length && defaultResponse ? [['default', defaultResponse]] : success);
+}
+
+function jsonContent(content: AnnotatedContent) {
+    return Object.entries(content).find(([mediaType, type]) => isJson(mediaType) && type)?.[1];
+}
+
+function isJson(mediaType: string) {
+    return /^application\/(.+\+)?json$/.test(mediaType.split(';')[0]?.trim() ?? '');
+}
+
+// a TypeScript type for a parameter without annotation, based on its (simple) schema
+function schemaType(schema?: OpenAPIV3.SchemaObject): string {
+    if (schema?.enum) return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+    switch (schema?.type) {
+        case 'string':
+            return 'string';
+        case 'integer':
+        case 'number':
+            return 'number';
+        case 'boolean':
+            return 'boolean';
+        case 'array':
+            return `Array<${'$ref' in schema.items ? 'unknown' : schemaType(schema.items)}>`;
+        default:
+            return 'unknown';
+    }
+}
+
+// the operationId, or the method and the path, e.g. `getPetsPetId` for `GET /pets/{petId}`
+function functionName({ operationId, method, path }: SpecOperation) {
+    const name = camelCase(operationId ?? `${method} ${path.replace(/[{}]/g, '')}`);
+    return /^\d/.test(name) ? `_${name}` : name;
+}
+
+function uniqueName(name: string, used: Set<string>) {
+    let result = name;
+    for (let i = 2; used.has(result); i++) {
+        result = `${name}${i}`;
+    }
+    used.add(result);
+    return result;
+}
+
+function propertyName(name: string) {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+function access(name: string) {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? `params.${name}` : `params[${quote(name)}]`;
+}
+
+function quote(value: string) {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function objectLiteral(entries: string[]) {
+    return entries.length ? `{ ${entries.join(', ')} }` : '{}';
+}
+
+function docComment({ summary, method, path }: SpecOperation) {
+    return [`/** ${(summary ?? `${method.toUpperCase()} ${path}`).replace(/\*\//g, '*\\/')} */`];
+}
+
+function indent(source: string, level: number) {
+    return source
+        .split('\n')
+        .map(line => (line ? INDENT.repeat(level) + line : line))
+        .join('\n');
+}
+
+function byName(a: string, b: string) {
+    return a.localeCompare(b);
+}
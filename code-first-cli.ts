@@ -0,0 +1,41 @@
+#!/usr/bin/env ts-node
+
+import chalk from 'chalk';
+import { promises } from 'fs';
+import { dump } from 'js-yaml';
+import path from 'path';
+import { ApiDefinition, generateDocument } from './code-first';
+
+const ARGS = process.argv.slice(2);
+const [API_MODULE, OPENAPI_FILE] = ARGS.filter(arg => !arg.startsWith('--'));
+// --export=<name>: the export of the module with the api definition, defaults to the default export
+const EXPORT = ARGS.find(arg => arg.startsWith('--export='))?.split('=')[1] ?? 'default';
+// --openapi-version=3.1: generate an OpenAPI 3.1 document instead of 3.0
+const OPENAPI_VERSION = ARGS.find(arg => arg.startsWith('--openapi-version='))?.split('=')[1] === '3.1' ? '3.1' : '3.0';
+// --preserve-intersections: generate intersections as `allOf` composition instead of flattening them to a single object
+const PRESERVE_INTERSECTIONS = ARGS.includes('--preserve-intersections');
+if (!API_MODULE || !OPENAPI_FILE) {
+    console.log(
+        chalk.redBright(
+            'Supply path to the typescript module with the api definition as first argument and path to the openapi file to generate as second',
+        ),
+    );
+    process.exit(1);
+}
+
+(async () => {
+    const lib = (await import(path.resolve(API_MODULE))) as Record<string, ApiDefinition | undefined>;
+    const definition = lib[EXPORT];
+    if (!definition?.paths) {
+        throw new Error(`${API_MODULE} does not export an api definition named ${EXPORT}`);
+    }
+    const document = generateDocument(definition, { openapiVersion: OPENAPI_VERSION, preserveIntersections: PRESERVE_INTERSECTIONS });
+    const text = /\.json$/.test(OPENAPI_FILE)
+        ? JSON.stringify(document, undefined, 2) + '\n'
+        : dump(document, { noRefs: true, lineWidth: 140 });
+    await promises.writeFile(OPENAPI_FILE, text, 'utf8');
+    console.log(chalk.greenBright(`wrote ${OPENAPI_FILE}`));
+})().catch(e => {
+    console.log(chalk.redBright(String(e)));
+    process.exit(1);
+});
@@ -0,0 +1,54 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import { array, int, object, partial, string } from '@skunkteam/types';
+import assert from 'assert';
+import { test } from 'node:test';
+import { defineApi, generateDocument } from './code-first';
+
+const PetId = int.withConfig('PetId', { min: 1 });
+const Pet = object('Pet', { id: PetId, name: string });
+const PetParameters = object('PetParameters', { petId: PetId });
+const PetQuery = partial('PetQuery', { limit: int });
+
+const API = defineApi({
+    info: { title: 'Petstore', version: '1.0.0' },
+    paths: {
+        '/pets': {
+            get: { operationId: 'listPets', parameters: { query: PetQuery }, responses: { 200: array('Pets', Pet) } },
+            post: { operationId: 'addPet', requestBody: Pet, responses: { 201: Pet, 405: 'Invalid input' } },
+        },
+        '/pets/{petId}': {
+            get: { operationId: 'getPet', parameters: { path: PetParameters }, responses: { 200: Pet, 404: 'Pet not found' } },
+        },
+    },
+});
+
+test('the parameter types are expanded into parameters, without schemas of their own', () => {
+    const document = generateDocument(API);
+    assert.deepStrictEqual(Object.keys(document.components?.schemas ?? {}).sort(), ['Pet', 'PetId', 'Pets', 'int']);
+    assert.deepStrictEqual(document.paths?.['/pets/{petId}']?.get?.parameters, [
+        { name: 'petId', in: 'path', required: true, schema: { $ref: '#/components/schemas/PetId' } },
+    ]);
+    assert.deepStrictEqual(document.paths?.['/pets']?.get?.parameters, [
+        { name: 'limit', in: 'query', required: false, schema: { $ref: '#/components/schemas/int' } },
+    ]);
+});
+
+test('a parameter type that is also used as request body keeps its schema', () => {
+    const api = defineApi({
+        info: { title: 'Petstore', version: '1.0.0' },
+        paths: {
+            '/pets/{petId}': {
+                put: { parameters: { path: PetParameters }, requestBody: PetParameters, responses: { 204: 'Updated' } },
+            },
+        },
+    });
+    assert.ok(generateDocument(api).components?.schemas?.['PetParameters']);
+});
+
+test('the generated documents are valid OpenAPI documents', async () => {
+    for (const openapiVersion of ['3.0', '3.1'] as const) {
+        // the parser dereferences the document in place, so it gets a copy (without the `undefined` keywords)
+        const document = JSON.parse(JSON.stringify(generateDocument(API, { openapiVersion, readWriteVariants: true })));
+        await SwaggerParser.validate(document);
+    }
+});
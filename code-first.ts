@@ -0,0 +1,198 @@
+import { BaseObjectLikeTypeImpl, isType, Type } from '@skunkteam/types';
+import { omit, pickBy } from 'lodash';
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import { namedExamples } from './metadata';
+import { GeneratorOptions, generateSchemas, TypeDefs } from './openapi-definitions-generator';
+import { expandParameters, GENERATED_PARAMETER, ParameterLocation, pathParameterNames } from './parameter-expander';
+import { INPUT_VARIANT_SUFFIX } from './read-write-variants';
+import type { HttpMethod } from './spec-operations';
+
+type ObjectType = BaseObjectLikeTypeImpl<unknown>;
+
+export type BodyOptions = { type: Type<unknown>; description?: string; mediaType?: string; required?: boolean };
+/** A request body, a type alone means a required body with `application/json` content of that type */
+export type BodyDefinition = Type<unknown> | BodyOptions;
+
+export type ResponseOptions = {
+    description?: string;
+    type?: Type<unknown>;
+    mediaType?: string;
+    headers?: Record<string, OpenAPIV3.HeaderObject>;
+};
+/** A response, a string is a response without content with that description */
+export type ResponseDefinition = string | Type<unknown> | ResponseOptions;
+
+export type OperationDefinition = {
+    operationId?: string;
+    summary?: string;
+    description?: string;
+    tags?: string[];
+    deprecated?: boolean;
+    security?: OpenAPIV3.SecurityRequirementObject[];
+    /** object types with a property per parameter, properties of `path` must occur in the path template */
+    parameters?: Partial<Record<ParameterLocation, ObjectType>>;
+    requestBody?: BodyDefinition;
+    /** the responses by status code (or `default`) */
+    responses: Record<string, ResponseDefinition>;
+};
+
+export type ApiDefinition = {
+    info: OpenAPIV3.InfoObject;
+    servers?: OpenAPIV3.ServerObject[];
+    tags?: OpenAPIV3.TagObject[];
+    security?: OpenAPIV3.SecurityRequirementObject[];
+    securitySchemes?: Record<string, OpenAPIV3.SecuritySchemeObject>;
+    paths: Record<string, Partial<Record<HttpMethod, OperationDefinition>>>;
+};
+
+/** Declares an API in code, only helps with type checking and autocompletion of the definition */
+export function defineApi(definition: ApiDefinition) {
+    return definition;
+}
+
+/**
+ * Generates a complete OpenAPI document for an API that is declared in code. The types of the request bodies and responses are
+ * referenced from `components/schemas`, which is filled by `generateSchemas` exactly like the generated types file of an annotated spec.
+ * The object types of the parameters are expanded into parameters, their own schemas are left out. All types should have a name that can
+ * be used as the name of a schema.
+ */
+export function generateDocument(definition: ApiDefinition, options: GeneratorOptions = {}): OpenAPIV3.Document | OpenAPIV3_1.Document {
+    const types: TypeDefs = {};
+    // the names of the types of the request bodies and responses, as opposed to the types that are only expanded into parameters
+    const contentTypes = new Set<string>();
+    const pendingParameters: Array<{ parameters: unknown[]; path: string; location: ParameterLocation; type: ObjectType }> = [];
+    // the refs of request bodies, that refer to the input variant of their schema when it is generated
+    const inputRefs: Array<{ ref: OpenAPIV3.ReferenceObject; name: string }> = [];
+
+    const paths: OpenAPIV3.PathsObject = {};
+    for (const [path, pathItem] of Object.entries(definition.paths)) {
+        const operations: OpenAPIV3.PathItemObject = {};
+        for (const [method, operation] of Object.entries(pathItem) as Array<[HttpMethod, OperationDefinition]>) {
+            const parameters: unknown[] = [];
+            for (const [location, type] of Object.entries(operation.parameters ?? {}) as Array<[ParameterLocation, ObjectType]>) {
+                collectType(type);
+                // the parameters can only be expanded when the schemas have been generated
+                pendingParameters.push({ parameters, path, location, type });
+            }
+            operations[method] = {
+                ...(operation.tags && { tags: operation.tags }),
+                ...(operation.summary && { summary: operation.summary }),
+                ...(operation.description && { description: operation.description }),
+                ...(operation.operationId && { operationId: operation.operationId }),
+                ...(operation.parameters && { parameters: parameters as OpenAPIV3.ParameterObject[] }),
+                ...(operation.requestBody && { requestBody: requestBody(operation.requestBody) }),
+                responses: responses(operation.responses),
+                ...(operation.deprecated && { deprecated: true }),
+                ...(operation.security && { security: operation.security }),
+            };
+        }
+        paths[path] = operations;
+    }
+
+    const { components } = generateSchemas('components/schemas', types, options) as { components: { schemas: Record<string, unknown> } };
+    for (const { ref, name } of inputRefs) {
+        ref.$ref = `#/components/schemas/${inputName(name)}`;
+    }
+    for (const { parameters, path, location, type } of pendingParameters) {
+        const schema = (components.schemas[inputName(type.name)] ?? {}) as OpenAPIV3.SchemaObject;
+        const expanded = expandParameters(type, schema, {
+            location,
+            pathParameters: pathParameterNames(path),
+            schemasRef: '#/components/schemas',
+            schemas: components.schemas as Record<string, OpenAPIV3.SchemaObject>,
+        });
+        parameters.push(...expanded.map(parameter => omit(parameter, GENERATED_PARAMETER)));
+    }
+    // the schemas of the parameter types are left out, unless they are referenced by a schema of a request body or response
+    const contentSchemas = [...contentTypes].flatMap(name => [name, inputName(name)]);
+    const schemas = referencedSchemas(components.schemas, paths, contentSchemas);
+
+    return {
+        openapi: options.openapiVersion === '3.1' ? '3.1.0' : '3.0.3',
+        info: definition.info,
+        ...(definition.servers && { servers: definition.servers }),
+        ...(definition.tags && { tags: definition.tags }),
+        ...(definition.security && { security: definition.security }),
+        paths,
+        components: {
+            schemas,
+            ...(definition.securitySchemes && { securitySchemes: definition.securitySchemes }),
+        },
+    } as OpenAPIV3.Document | OpenAPIV3_1.Document;
+
+    function schemaRef(type: Type<unknown>): OpenAPIV3.ReferenceObject {
+        contentTypes.add(type.name);
+        return { $ref: `#/components/schemas/${collectType(type)}` };
+    }
+
+    // the name of the input variant of the schema (see `readWriteVariants`), when it has one
+    function inputName(name: string) {
+        const variant = `${name}${INPUT_VARIANT_SUFFIX}`;
+        return options.readWriteVariants && variant in components.schemas ? variant : name;
+    }
+
+    function mediaTypeObject(type: Type<unknown>, input: boolean): OpenAPIV3.MediaTypeObject {
+        const schema = schemaRef(type);
+        if (input) inputRefs.push({ ref: schema, name: type.name });
+        const examples = namedExamples(type);
+        return { schema, ...(examples && { examples }) };
+    }
+
+    // remembers the type, so its schema gets generated, and returns the name of its schema
+    function collectType(type: Type<unknown>) {
+        if (!/^[\w.-]+$/.test(type.name)) {
+            throw new Error(`type ${type.name} needs a name that can be used as schema name, use \`withName\` or a named type`);
+        }
+        if (types[type.name] && types[type.name] !== type) {
+            throw new Error(`duplicate types named "${type.name}"`);
+        }
+        types[type.name] = type;
+        return type.name;
+    }
+
+    function requestBody(body: BodyDefinition): OpenAPIV3.RequestBodyObject {
+        const definition: BodyOptions = isType(body) ? { type: body } : body;
+        const { type, description, mediaType = 'application/json', required = true } = definition;
+        return { ...(description && { description }), content: { [mediaType]: mediaTypeObject(type, true) }, required };
+    }
+
+    function responses(definitions: OperationDefinition['responses']): OpenAPIV3.ResponsesObject {
+        const result: OpenAPIV3.ResponsesObject = {};
+        for (const [status, response] of Object.entries(definitions)) {
+            const definition: ResponseOptions =
+                typeof response === 'string' ? { description: response } : isType(response) ? { type: response } : response;
+            const { description, type, mediaType = 'application/json', headers } = definition;
+            result[status] = {
+                description: description ?? type?.name ?? status,
+                ...(headers && { headers }),
+                ...(type && { content: { [mediaType]: mediaTypeObject(type, false) } }),
+            };
+        }
+        return result;
+    }
+}
+
+const SCHEMAS_REF = '#/components/schemas/';
+
+// the schemas with the given names and the schemas that are (indirectly) referenced by them or by the paths, in their original order
+function referencedSchemas(schemas: Record<string, unknown>, paths: OpenAPIV3.PathsObject, names: string[]) {
+    const referenced = new Set<string>();
+    const add = (name: string) => {
+        if (referenced.has(name) || !(name in schemas)) return;
+        referenced.add(name);
+        schemaRefs(schemas[name]).forEach(add);
+    };
+    [...names, ...schemaRefs(paths)].forEach(add);
+    return pickBy(schemas, (_, name) => referenced.has(name));
+}
+
+// the names of the schemas that the `$ref`s inside the given value refer to
+function schemaRefs(value: unknown): string[] {
+    if (Array.isArray(value)) return value.flatMap(schemaRefs);
+    if (typeof value !== 'object' || value === null) return [];
+    return Object.entries(value).flatMap(([key, nested]) =>
+        key === '$ref' && typeof nested === 'string' && nested.startsWith(SCHEMAS_REF)
+            ? [nested.slice(SCHEMAS_REF.length)]
+            : schemaRefs(nested),
+    );
+}
@@ -0,0 +1,43 @@
+#!/usr/bin/env ts-node
+
+import { isType } from '@skunkteam/types';
+import chalk from 'chalk';
+import { pickBy } from 'lodash';
+import path from 'path';
+import { loadTypeModule } from './module-resolver';
+import { TypeDefs } from './openapi-definitions-generator';
+import { checkConformance, formatConformanceIssues } from './schema-conformance';
+
+const ARGS = process.argv.slice(2);
+const MODULES = ARGS.filter(arg => !arg.startsWith('--'));
+// --preserve-intersections: generate intersections as `allOf` composition instead of flattening them to a single object
+const PRESERVE_INTERSECTIONS = ARGS.includes('--preserve-intersections');
+if (!MODULES.length) {
+    console.log(chalk.redBright('Supply the paths to one or more typescript modules with skunkteam types'));
+    process.exit(1);
+}
+
+(async () => {
+    let issueCount = 0;
+    let typeCount = 0;
+    for (const module of MODULES) {
+        const lib = await loadTypeModule(path.resolve(module));
+        // every exported type is checked, with the name of its export as schema name
+        const types: TypeDefs = pickBy(lib, isType);
+        const issues = checkConformance(types, { preserveIntersections: PRESERVE_INTERSECTIONS });
+        if (issues.length) {
+            console.log(chalk.bold(module));
+            console.log(formatConformanceIssues(issues));
+        }
+        issueCount += issues.length;
+        typeCount += Object.keys(types).length;
+    }
+    if (issueCount) {
+        console.log(chalk.redBright(`${issueCount} sample(s) where a type and its schema disagree`));
+        process.exit(1);
+    }
+    console.log(chalk.greenBright(`the schemas of ${typeCount} type(s) accept the same samples as the types`));
+})().catch(e => {
+    console.log(chalk.redBright(String(e)));
+    process.exit(1);
+});
@@ -0,0 +1,38 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import ts from 'typescript';
+import { extractDocComments } from './doc-comments';
+
+const SOURCE = `
+/**
+ * A pet in the store
+ * @deprecated
+ */
+export const Pet = object('Pet', {
+    /**
+     * The name of the pet
+     * @example "Rex"
+     */
+    name: string,
+}).withOptional({
+    /** @format uri */
+    photoUrl: string,
+});
+
+/** The id of a pet */
+export type PetId = The<typeof PetId>;
+export const PetId = int;
+
+const Internal = object('Internal', { /** not exported */ secret: string });
+`;
+
+test('the doc comments of the exported types and their properties', () => {
+    const sourceFile = ts.createSourceFile('types.ts', SOURCE, ts.ScriptTarget.Latest, true);
+    assert.deepStrictEqual(extractDocComments(sourceFile), {
+        Pet: {
+            metadata: { description: 'A pet in the store', deprecated: true },
+            properties: { name: { description: 'The name of the pet', example: 'Rex' }, photoUrl: { format: 'uri' } },
+        },
+        PetId: { metadata: { description: 'The id of a pet' } },
+    });
+});
@@ -0,0 +1,120 @@
+import { isType } from '@skunkteam/types';
+import { promises } from 'fs';
+import { isEmpty } from 'lodash';
+import ts from 'typescript';
+import { DOC_METADATA } from './metadata';
+
+type DocMetadata = { description?: string; deprecated?: boolean; example?: unknown; format?: string };
+
+/** The metadata of the doc comments of an exported type declaration, and of the properties of the object literals it is created with */
+export type DeclarationDocs = { metadata?: DocMetadata; properties?: Record<string, DocMetadata> };
+
+/**
+ * Reads the doc comments of the exported declarations of a TypeScript module and attaches them to the exported skunkteam types of the
+ * (loaded) module. The generator adds them to the schemas, metadata that is added with `openApiMetadata()` takes precedence.
+ */
+export async function applyDocComments(filename: string, lib: Record<string, unknown>) {
+    if (!/\.tsx?$/.test(filename)) return; // no source available
+    const sourceFile = ts.createSourceFile(filename, await promises.readFile(filename, 'utf8'), ts.ScriptTarget.Latest, true);
+    for (const [name, docs] of Object.entries(extractDocComments(sourceFile))) {
+        const type = lib[name];
+        if (isType(type)) {
+            // configurable, because the same type can be exported by several modules
+            Object.defineProperty(type, DOC_METADATA, { value: docs, configurable: true });
+        }
+    }
+}
+
+/**
+ * Extracts the doc comments of the exported variable declarations, e.g. `export const Pet = object('Pet', { ... })`. The doc comment of a
+ * type alias with the same name (`export type Pet = The<typeof Pet>`) is used when the variable declaration has none. Supports the summary
+ * (as `description`) and the `@example`, `@deprecated` and `@format` tags.
+ */
+export function extractDocComments(sourceFile: ts.SourceFile) {
+    const result: Record<string, DeclarationDocs> = {};
+    const typeDocs = new Map<string, DocMetadata>();
+    for (const statement of sourceFile.statements) {
+        if ((ts.isTypeAliasDeclaration(statement) || ts.isInterfaceDeclaration(statement)) && isExported(statement)) {
+            const metadata = docMetadata(statement);
+            if (metadata) typeDocs.set(statement.name.text, metadata);
+        }
+    }
+    for (const statement of sourceFile.statements) {
+        if (!ts.isVariableStatement(statement) || !isExported(statement)) continue;
+        for (const declaration of statement.declarationList.declarations) {
+            if (!ts.isIdentifier(declaration.name)) continue;
+            const name = declaration.name.text;
+            // the doc comment of a variable belongs to the variable statement
+            const metadata = docMetadata(statement) ?? typeDocs.get(name);
+            const properties: Record<string, DocMetadata> = {};
+            for (const literal of declaration.initializer ? propertyLiterals(declaration.initializer) : []) {
+                for (const property of literal.properties) {
+                    const propertyName = property.name && literalName(property.name);
+                    const propertyMetadata = propertyName && docMetadata(property);
+                    if (propertyName && propertyMetadata) properties[propertyName] = propertyMetadata;
+                }
+            }
+            if (metadata || !isEmpty(properties)) {
+                result[name] = { ...(metadata && { metadata }), ...(!isEmpty(properties) && { properties }) };
+            }
+        }
+    }
+    return result;
+}
+
+function docMetadata(node: ts.Node): DocMetadata | undefined {
+    const metadata: DocMetadata = {};
+    for (const doc of jsDocs(node)) {
+        const description = ts.getTextOfJSDocComment(doc.comment)?.trim();
+        if (description) metadata.description = description;
+        for (const tag of doc.tags ?? []) {
+            const text = ts.getTextOfJSDocComment(tag.comment)?.trim() ?? '';
+            switch (tag.tagName.text) {
+                case 'example':
+                    metadata.example = parseExample(text);
+                    break;
+                case 'deprecated':
+                    metadata.deprecated = true;
+                    break;
+                case 'format':
+                    if (text) metadata.format = text;
+                    break;
+            }
+        }
+    }
+    return isEmpty(metadata) ? undefined : metadata;
+}
+
+// the object literals of the call chain that creates the type, e.g. both literals of `object('Pet', { ... }).withOptional({ ... })`
+function propertyLiterals(expression: ts.Expression) {
+    const literals: ts.ObjectLiteralExpression[] = [];
+    while (ts.isCallExpression(expression)) {
+        literals.unshift(...expression.arguments.filter(ts.isObjectLiteralExpression));
+        expression = ts.isPropertyAccessExpression(expression.expression) ? expression.expression.expression : expression.expression;
+    }
+    return literals;
+}
+
+// examples are json (e.g. `{ "name": "Rex" }` or `42`), anything else is a string example
+function parseExample(text: string): unknown {
+    const example = text.replace(/^```\w*\s*|\s*```$/g, '');
+    try {
+        return JSON.parse(example);
+    } catch {
+        return example;
+    }
+}
+
+// `getJSDocCommentsAndTags` is only public (and typed) since TypeScript 5.1, older versions without it have the internal `jsDoc` property
+function jsDocs(node: ts.Node): readonly ts.JSDoc[] {
+    const { getJSDocCommentsAndTags } = ts as { getJSDocCommentsAndTags?: (node: ts.Node) => ReadonlyArray<ts.JSDoc | ts.JSDocTag> };
+    return getJSDocCommentsAndTags ? getJSDocCommentsAndTags(node).filter(ts.isJSDoc) : (node as { jsDoc?: ts.JSDoc[] }).jsDoc ?? [];
+}
+
+function literalName(name: ts.PropertyName) {
+    return ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) ? name.text : undefined;
+}
+
+function isExported(statement: ts.VariableStatement | ts.TypeAliasDeclaration | ts.InterfaceDeclaration) {
+    return !!statement.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+}
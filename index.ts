@@ -1 +1,11 @@
+export * from './breaking-changes';
+export * from './client-generator';
+export * from './code-first';
 export * from './metadata';
+export { GeneratorOptions, generateSchemas, SchemaGenerationError, Schemas, TypeDefs } from './openapi-definitions-generator';
+export * from './schema-conformance';
+export * from './spec-bundler';
+export * from './spec-generator';
+export * from './spec-operations';
+export * from './type-mappings';
+export * from './validation-middleware';
@@ -2,9 +2,20 @@ import type { ObjectType, Type, TypeOf } from '@skunkteam/types';
 import type { OpenAPIV3 } from 'openapi-types';
 
 export const OPENAPI_METADATA = Symbol('openapi metadata for a skunkteam type');
+/** The metadata that was extracted from the doc comments of the declaration of a skunkteam type, see `applyDocComments` */
+export const DOC_METADATA = Symbol('openapi metadata from the doc comments of a skunkteam type');
 
-type CustomMetadata<T> = Pick<OpenAPIV3.BaseSchemaObject, 'description' | 'deprecated' | 'format' | 'xml'> &
-    (T extends Array<unknown> ? { items?: CustomMetadata<T[number]> } : {}) & { example?: T };
+/** A named example of a type, which is added to the `examples` of the media types with the type as schema */
+export type NamedExample<T> = Pick<OpenAPIV3.ExampleObject, 'summary' | 'description'> & { value: T };
+
+// the keywords of a schema that can be added or overridden
+type MetadataKeywords = 'description' | 'deprecated' | 'format' | 'xml' | 'readOnly' | 'writeOnly' | 'externalDocs';
+
+type CustomMetadata<T> = Pick<OpenAPIV3.BaseSchemaObject, MetadataKeywords> &
+    (T extends Array<unknown> ? { items?: CustomMetadata<T[number]> } : {}) & {
+        example?: T;
+        examples?: T[] | Record<string, NamedExample<T>>;
+    };
 
 /** Add/override openapi properties of the type */
 export function openApiMetadata<T extends Type<unknown, unknown>>(
@@ -14,3 +25,14 @@ export function openApiMetadata<T extends Type<unknown, unknown>>(
 ) {
     Object.defineProperty(type, OPENAPI_METADATA, { value: { metadata, properties } });
 }
+
+/** The named examples that were added to the type with `openApiMetadata()`, if any */
+export function namedExamples(type: Type<unknown>): Record<string, NamedExample<unknown>> | undefined {
+    const { examples } = (type as { [OPENAPI_METADATA]?: { metadata: CustomMetadata<unknown> } })[OPENAPI_METADATA]?.metadata ?? {};
+    return examples && !Array.isArray(examples) ? examples : undefined;
+}
+
+/** The values of the examples, which can be a list of values or named examples */
+export function exampleValues(examples: unknown) {
+    return Array.isArray(examples) ? examples : Object.values(examples as Record<string, NamedExample<unknown>>).map(({ value }) => value);
+}
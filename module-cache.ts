@@ -0,0 +1,33 @@
+/**
+ * Returns the given modules and all modules they (indirectly) import, based on the modules in node's module cache. Modules from
+ * `node_modules` and the given `ignore`d modules are not included.
+ */
+export function moduleDependencies(ids: Iterable<string>, ignore: ReadonlySet<string> = new Set()) {
+    const result = new Set<string>();
+    const visit = (id: string) => {
+        if (result.has(id) || ignore.has(id) || isPackage(id)) return;
+        result.add(id);
+        require.cache[id]?.children.forEach(child => visit(child.id));
+    };
+    [...ids].forEach(visit);
+    return result;
+}
+
+/**
+ * Removes the module from node's module cache, together with all modules that (indirectly) import it, so the next import loads the
+ * latest version from disk. The `keep` modules are never removed.
+ */
+export function invalidateModule(id: string, keep: ReadonlySet<string> = new Set()) {
+    if (keep.has(id) || !require.cache[id]) return;
+    delete require.cache[id];
+    for (const parent of Object.values(require.cache)) {
+        if (parent?.children.some(child => child.id === id)) {
+            parent.children = parent.children.filter(child => child.id !== id);
+            invalidateModule(parent.id, keep);
+        }
+    }
+}
+
+function isPackage(id: string) {
+    return /[\\/]node_modules[\\/]/.test(id);
+}
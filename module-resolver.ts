@@ -0,0 +1,88 @@
+import path from 'path';
+import ts from 'typescript';
+import { applyDocComments } from './doc-comments';
+
+type PathAliases = { baseDir: string; paths: Record<string, string[]> };
+
+// the `paths` aliases of the nearest tsconfig.json, per directory of a spec file
+const aliasesCache = new Map<string, PathAliases | undefined>();
+// the exports of the loaded modules by their absolute filename, so every module is only loaded once
+const moduleCache = new Map<string, Record<string, unknown>>();
+
+/**
+ * Resolves the module specifier of a `x-skunkteam-type` annotation to an absolute filename. Relative specifiers are resolved against the
+ * directory of the spec file that contains the annotation. Other specifiers are resolved using the `paths` of the nearest `tsconfig.json`
+ * and otherwise as a package, starting from the directory of the spec file.
+ */
+export function resolveTypeModule(specifier: string, specFile: string) {
+    const dir = path.dirname(path.resolve(specFile));
+    if (specifier.startsWith('./') || specifier.startsWith('../') || path.isAbsolute(specifier)) {
+        return require.resolve(path.resolve(dir, specifier));
+    }
+    for (const candidate of aliasCandidates(specifier, dir)) {
+        try {
+            return require.resolve(candidate);
+        } catch {
+            // try the next candidate
+        }
+    }
+    return require.resolve(specifier, { paths: [dir] });
+}
+
+/**
+ * Loads the module with the given (resolved) filename, modules that are still in node's module cache are not loaded again. The doc comments
+ * of the module are attached to its exported types, so they end up in the generated schemas.
+ */
+export async function loadTypeModule(filename: string) {
+    let lib = moduleCache.get(filename);
+    // when the module was removed from node's module cache (e.g. by the watch mode), it has to be loaded again
+    if (!lib || !require.cache[filename]) {
+        // not `await import(filename)`: TypeScript < 5 compiles that to a shared temporary variable, so concurrent loads get mixed up
+        lib = require(filename) as Record<string, unknown>;
+        await applyDocComments(filename, lib);
+        moduleCache.set(filename, lib);
+    }
+    return lib;
+}
+
+// the files that the specifier could refer to according to the `paths` aliases in the tsconfig.json
+function aliasCandidates(specifier: string, dir: string) {
+    const aliases = pathAliases(dir);
+    if (!aliases) return [];
+    const candidates: string[] = [];
+    for (const [pattern, targets] of Object.entries(aliases.paths)) {
+        const [prefix = '', suffix] = pattern.split('*');
+        let match: string | undefined;
+        if (suffix === undefined) {
+            match = pattern === specifier ? '' : undefined;
+        } else if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length) {
+            match = specifier.slice(prefix.length, specifier.length - suffix.length);
+        }
+        if (match !== undefined) {
+            const wildcard = match;
+            candidates.push(...targets.map(target => path.resolve(aliases.baseDir, target.replace('*', wildcard))));
+        }
+    }
+    return candidates;
+}
+
+function pathAliases(dir: string) {
+    if (!aliasesCache.has(dir)) {
+        aliasesCache.set(dir, readPathAliases(dir));
+    }
+    return aliasesCache.get(dir);
+}
+
+function readPathAliases(dir: string): PathAliases | undefined {
+    const configFile = ts.findConfigFile(dir, ts.sys.fileExists);
+    if (!configFile) return;
+    const { config, error } = ts.readConfigFile(configFile, ts.sys.readFile);
+    if (error) {
+        throw new Error(`Could not read ${configFile}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    }
+    // also takes care of `extends`
+    const { options } = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configFile));
+    if (!options.paths) return;
+    // without a `baseUrl`, paths are relative to the tsconfig.json
+    return { baseDir: options.baseUrl ?? path.dirname(configFile), paths: options.paths };
+}
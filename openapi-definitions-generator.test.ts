@@ -0,0 +1,216 @@
+import { boolean, int, intersection, keyof, literal, number, object, record, string, Type, union } from '@skunkteam/types';
+import assert from 'assert';
+import { test } from 'node:test';
+import { openApiMetadata } from './metadata';
+import { GeneratorOptions, generateSchemas, TypeDefs } from './openapi-definitions-generator';
+import type { OpenApiVersion } from './schema-versions';
+import { registerTypeMapping } from './type-mappings';
+
+const Pet = object('Pet', { name: string });
+const Owner = object('Owner', { name: string });
+const PET_REF = { $ref: '#/components/schemas/Pet' };
+const OWNER_REF = { $ref: '#/components/schemas/Owner' };
+const INT_REF = { $ref: '#/components/schemas/int' };
+
+test('nullable inline type', () => {
+    const types = { Name: union('Name', [string, literal(null)]) };
+    assert.deepStrictEqual(generate(types, '3.0')['Name'], { title: 'Name', type: 'string', nullable: true });
+    assert.deepStrictEqual(generate(types, '3.1')['Name'], { title: 'Name', type: ['string', 'null'] });
+});
+
+test('nullable named type', () => {
+    const types = { Pet, MaybePet: union('MaybePet', [Pet, literal(null)]) };
+    // `nullable` is ignored next to a `$ref`
+    assert.deepStrictEqual(generate(types, '3.0')['MaybePet'], { title: 'MaybePet', allOf: [PET_REF], nullable: true });
+    assert.deepStrictEqual(generate(types, '3.1')['MaybePet'], { title: 'MaybePet', anyOf: [PET_REF, { type: 'null' }] });
+});
+
+test('nullable union of several types', () => {
+    const types = { Pet, Owner, PetOrOwner: union('PetOrOwner', [Pet, Owner, literal(null)]) };
+    assert.deepStrictEqual(generate(types, '3.0')['PetOrOwner'], { title: 'PetOrOwner', oneOf: [PET_REF, OWNER_REF], nullable: true });
+    assert.deepStrictEqual(generate(types, '3.1')['PetOrOwner'], { title: 'PetOrOwner', oneOf: [PET_REF, OWNER_REF, { type: 'null' }] });
+});
+
+test('nullable union of literals', () => {
+    const types = { Status: union('Status', [literal('placed'), literal('delivered'), literal(null)]) };
+    const enumValues = ['placed', 'delivered', null];
+    assert.deepStrictEqual(generate(types, '3.0')['Status'], { title: 'Status', type: 'string', enum: enumValues, nullable: true });
+    assert.deepStrictEqual(generate(types, '3.1')['Status'], { title: 'Status', type: ['string', 'null'], enum: enumValues });
+});
+
+test('nullable object properties', () => {
+    const types = { Person: object('Person', { nickname: union([string, literal(null)]), age: union([int, literal(null)]) }) };
+    assert.deepStrictEqual(generate(types, '3.0')['Person'], {
+        title: 'Person',
+        type: 'object',
+        properties: { nickname: { type: 'string', nullable: true }, age: { allOf: [INT_REF], nullable: true } },
+        required: ['nickname', 'age'],
+    });
+    assert.deepStrictEqual(generate(types, '3.1')['Person'], {
+        title: 'Person',
+        type: 'object',
+        properties: { nickname: { type: ['string', 'null'] }, age: { anyOf: [INT_REF, { type: 'null' }] } },
+        required: ['nickname', 'age'],
+    });
+});
+
+test('null literal', () => {
+    const types = { Nothing: literal(null) };
+    assert.deepStrictEqual(generate(types, '3.0')['Nothing'], { title: 'Nothing', nullable: true, enum: [null] });
+    assert.deepStrictEqual(generate(types, '3.1')['Nothing'], { title: 'Nothing', type: 'null' });
+});
+
+test('metadata of a property with a named type', () => {
+    const Toy = object('Toy', { id: int, name: string });
+    openApiMetadata(Toy, {}, { id: { readOnly: true, externalDocs: { url: 'https://example.com/ids' } }, name: { writeOnly: true } });
+    // siblings of a `$ref` are ignored in OpenAPI 3.0
+    assert.deepStrictEqual(generate({ Toy }, '3.0')['Toy'], {
+        title: 'Toy',
+        type: 'object',
+        properties: {
+            id: { allOf: [INT_REF], readOnly: true, externalDocs: { url: 'https://example.com/ids' } },
+            name: { type: 'string', writeOnly: true },
+        },
+        required: ['id', 'name'],
+    });
+});
+
+test('custom types without a type mapping keep the constraints in their config', () => {
+    const Code = customType('Code', 'string', { minLength: 2, maxLength: 3, pattern: /^[A-Z]+$/ });
+    const Percentage = customType('Percentage', 'number', { min: 0, maxExclusive: 100, multipleOf: 1 });
+    const Flag = customType('Flag', 'boolean', undefined);
+    assert.deepStrictEqual(generate({ Code, Percentage, Flag }, '3.0'), {
+        Code: { title: 'Code', type: 'string', pattern: '^[A-Z]+$', minLength: 2, maxLength: 3 },
+        Percentage: { title: 'Percentage', type: 'integer', minimum: 0, maximum: 100, exclusiveMaximum: true },
+        Flag: { title: 'Flag', type: 'boolean' },
+    });
+    // a registered mapping adds to the schema of the basic type
+    const CountryCode = customType('CountryCode', 'string', { minLength: 2, maxLength: 2 });
+    registerTypeMapping(CountryCode, 'iso3166-alpha2');
+    assert.deepStrictEqual(generate({ CountryCode }, '3.0')['CountryCode'], {
+        title: 'CountryCode',
+        type: 'string',
+        minLength: 2,
+        maxLength: 2,
+        format: 'iso3166-alpha2',
+    });
+});
+
+test('record with a fixed set of keys', () => {
+    const types = { Stock: record('Stock', keyof({ small: null, large: null }), int) };
+    const expected = {
+        title: 'Stock',
+        type: 'object',
+        properties: { small: INT_REF, large: INT_REF },
+        required: ['small', 'large'],
+        additionalProperties: false,
+    };
+    assert.deepStrictEqual(generate(types, '3.0')['Stock'], expected);
+    assert.deepStrictEqual(generate(types, '3.1')['Stock'], expected);
+});
+
+test('record with constraints on its keys', () => {
+    const types = { Prices: record('Prices', string.withConfig('Sku', { pattern: /^[A-Z]{3}$/, maxLength: 3 }), number) };
+    const propertyNames = { pattern: '^[A-Z]{3}$', maxLength: 3 };
+    // OpenAPI 3.0 has no `propertyNames`, so the key constraints are documented with a vendor extension
+    assert.deepStrictEqual(generate(types, '3.0')['Prices'], {
+        'title': 'Prices',
+        'type': 'object',
+        'additionalProperties': { type: 'number' },
+        'x-propertyNames': propertyNames,
+    });
+    assert.deepStrictEqual(generate(types, '3.1')['Prices'], {
+        title: 'Prices',
+        type: 'object',
+        additionalProperties: { type: 'number' },
+        propertyNames,
+    });
+    // without key constraints only the values are described
+    assert.deepStrictEqual(generate({ Tags: record('Tags', string, string) }, '3.1')['Tags'], {
+        title: 'Tags',
+        type: 'object',
+        additionalProperties: { type: 'string' },
+    });
+});
+
+test('preserved intersections refer to their named members', () => {
+    const Dog = intersection('Dog', [Pet, object({ barks: boolean })]);
+    openApiMetadata(Dog, {}, { name: { description: 'the name of the dog' }, barks: { description: 'whether the dog barks' } });
+    assert.deepStrictEqual(generate({ Pet, Dog }, '3.0', { preserveIntersections: true })['Dog'], {
+        title: 'Dog',
+        allOf: [
+            PET_REF,
+            {
+                type: 'object',
+                properties: { barks: { type: 'boolean', description: 'whether the dog barks' } },
+                required: ['barks'],
+            },
+            // the metadata of the properties of a referenced member can not be added to that member
+            { properties: { name: { description: 'the name of the dog' } } },
+        ],
+    });
+    // by default the intersection is flattened
+    assert.deepStrictEqual(generate({ Pet, Dog }, '3.0')['Dog'], {
+        title: 'Dog',
+        type: 'object',
+        properties: {
+            name: { type: 'string', description: 'the name of the dog' },
+            barks: { type: 'boolean', description: 'whether the dog barks' },
+        },
+        required: ['name', 'barks'],
+    });
+});
+
+test('preserved intersections of an object with optional properties', () => {
+    const Cat = object('Cat', { name: string }).withOptional({ indoor: boolean });
+    // the object has the same name as the intersection, so it becomes the base schema
+    assert.deepStrictEqual(generate({ Cat }, '3.0', { preserveIntersections: true }), {
+        CatBase: { title: 'CatBase', type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+        Cat: {
+            title: 'Cat',
+            allOf: [{ $ref: '#/components/schemas/CatBase' }, { type: 'object', properties: { indoor: { type: 'boolean' } } }],
+        },
+    });
+});
+
+test('a nested type with the name of another type is qualified with the name of its parent', () => {
+    const Status = keyof('Status', { available: null, sold: null });
+    const Order = object('Order', { status: keyof('Status', { placed: null, delivered: null }) });
+    const schemas = generate({ Status, Order }, '3.0');
+    assert.deepStrictEqual(schemas['Status'], { title: 'Status', type: 'string', enum: ['available', 'sold'] });
+    assert.deepStrictEqual(schemas['Order.Status'], { title: 'Status', type: 'string', enum: ['placed', 'delivered'] });
+    assert.deepStrictEqual(schemas['Order'], {
+        title: 'Order',
+        type: 'object',
+        properties: { status: { $ref: '#/components/schemas/Order.Status' } },
+        required: ['status'],
+    });
+});
+
+test('nested types with the same qualified name are an error', () => {
+    const Status = keyof('Status', { available: null, sold: null });
+    const Order = object('Order', {
+        status: keyof('Status', { placed: null, delivered: null }),
+        previousStatus: keyof('Status', { placed: null, cancelled: null }),
+    });
+    assert.throws(() => generate({ Status, Order }, '3.0'), /multiple types are named "Status", give them distinct names/);
+});
+
+// a type that is implemented outside of @skunkteam/types, so it is visited with `visitCustomType`
+function customType(name: string, basicType: string, typeConfig: object | undefined) {
+    const type = {
+        name,
+        basicType,
+        typeConfig,
+        accept: (visitor: { visitCustomType(t: unknown): unknown }) => visitor.visitCustomType(type),
+    };
+    return type as unknown as Type<unknown>;
+}
+
+// the generated schemas without the `undefined` keywords
+function generate(types: TypeDefs, openapiVersion: OpenApiVersion, options: GeneratorOptions = {}): Record<string, unknown> {
+    const { components } = generateSchemas('components/schemas', types, { ...options, openapiVersion }) as {
+        components: { schemas: object };
+    };
+    return JSON.parse(JSON.stringify(components.schemas));
+}
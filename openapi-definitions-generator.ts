@@ -2,6 +2,7 @@ import {
     ArrayType,
     BaseObjectLikeTypeImpl,
     BaseTypeImpl,
+    IntersectionType,
     KeyofType,
     LiteralType,
     LiteralValue,
@@ -14,31 +15,65 @@ import {
     Visitor,
 } from '@skunkteam/types';
 import assert from 'assert';
-import chalk from 'chalk';
-import { mapValues, set } from 'lodash';
+import { isEmpty, mapValues, set, uniq } from 'lodash';
 import { OpenAPIV3 } from 'openapi-types';
-import { inspect } from 'util';
-import { OPENAPI_METADATA } from './metadata';
+import { DOC_METADATA, exampleValues, OPENAPI_METADATA } from './metadata';
+import { withReadWriteVariants } from './read-write-variants';
+import { convertSchema, OpenApiVersion } from './schema-versions';
+import { findTypeMapping } from './type-mappings';
 
 export type Schemas = Record<string, OpenAPIV3.SchemaObject>;
 export type TypeDefs = Partial<Record<string, Type<unknown>>>;
 
-// additional openapi metadata might have been attached to any skunkteam/type
+type Metadata = {
+    metadata?: Record<string, unknown>;
+    properties?: Record<string, Record<string, unknown>>;
+};
+
+// additional openapi metadata might have been attached to any skunkteam/type, explicitly or extracted from its doc comments
 type AnnotatedType = {
-    [OPENAPI_METADATA]?: {
-        metadata?: Record<string, unknown>;
-        properties?: Record<string, Record<string, unknown>>;
-    };
+    [OPENAPI_METADATA]?: Metadata;
+    [DOC_METADATA]?: Metadata;
+};
+
+export type GeneratorOptions = {
+    /** the OpenAPI version to generate schemas for, defaults to `3.0` */
+    openapiVersion?: OpenApiVersion;
+    /**
+     * generate intersections (including objects with `withOptional`) as `allOf` composition of their members instead of a single
+     * flattened object, defaults to `false`
+     */
+    preserveIntersections?: boolean;
+    /**
+     * generate an input variant (e.g. `PetInput`, without the `readOnly` properties) next to the output variant (e.g. `Pet`, without the
+     * `writeOnly` properties) of the schemas that have `readOnly` or `writeOnly` properties, defaults to `false`
+     */
+    readWriteVariants?: boolean;
 };
 
-export function generateSchemas(basePath: string, types: TypeDefs) {
+export function generateSchemas(basePath: string, types: TypeDefs, options: GeneratorOptions = {}) {
     const SEP = /[./]/g;
-    const visitor = new OpenApiDefinitionsGenerator(['#', ...basePath.split(SEP).filter(Boolean)].join('/'), types);
+    const refPath = ['#', ...basePath.split(SEP).filter(Boolean)].join('/');
+    const visitor = new OpenApiDefinitionsGenerator(refPath, types, options);
     visitor.processTypes();
-    const { schemas } = visitor;
+    const generated = options.readWriteVariants ? withReadWriteVariants(visitor.schemas, refPath) : visitor.schemas;
+    const schemas = mapValues(generated, schema => convertSchema(schema, options.openapiVersion ?? '3.0'));
     return basePath ? set({}, basePath.replace(SEP, '.'), schemas) : schemas;
 }
 
+/** Thrown when a skunkteam/type could not be converted to an OpenAPI schema */
+export class SchemaGenerationError extends Error {
+    override readonly name = 'SchemaGenerationError';
+
+    constructor(
+        /** the names of the types that were being processed, from the top-level type down to the type that caused the problem */
+        readonly typePath: string[],
+        readonly cause: unknown,
+    ) {
+        super(`Problem with ${typePath.join(' / ')}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    }
+}
+
 /**
    Implementation of the "visitor pattern" to convert skunkteam/types to OpenAPI schemas
 */
@@ -47,8 +82,9 @@ class OpenApiDefinitionsGenerator implements Visitor<OpenAPIV3.SchemaObject> {
     private readonly topLevelTypes = new Map<BaseTypeImpl<unknown>, string>();
     private readonly typeStack: BaseTypeImpl<unknown>[] = [];
     private readonly availableDefinitions = new Map<BaseTypeImpl<unknown>, OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject>();
+    private readonly nameOverrides = new Map<BaseTypeImpl<unknown>, string>();
 
-    constructor(private readonly basePath: string, topLevelTypes: TypeDefs) {
+    constructor(private readonly basePath: string, topLevelTypes: TypeDefs, private readonly options: GeneratorOptions = {}) {
         Object.entries(topLevelTypes).forEach(([name, type]) => type && this.topLevelTypes.set(type, name));
     }
 
@@ -71,30 +107,22 @@ class OpenApiDefinitionsGenerator implements Visitor<OpenAPIV3.SchemaObject> {
     }
 
     visitObjectLikeType(type: BaseObjectLikeTypeImpl<unknown, unknown> & AnnotatedType): OpenAPIV3.SchemaObject {
-        // TODO: Overwegen om intersections te vertalen naar `allOf` constructies, dat geeft meer gedetailleerde specs, maar zijn ook
-        // moeilijker om te bevatten. Nu zijn de types platgeslagen naar een enkel object (door @skunkteam/types).
+        if (this.options.preserveIntersections && type instanceof IntersectionType) {
+            return this.intersectionSchema(type);
+        }
+        // Intersections (en `withOptional`) worden standaard platgeslagen naar een enkel object (door @skunkteam/types), zie
+        // `preserveIntersections` om ze als `allOf` constructie te genereren.
         const required = Object.keys(type.propsInfo).filter(prop => type.propsInfo[prop]?.partial === false);
         return this.withMetadata(type, {
             title: this.customName(type),
             type: 'object',
-            properties: mapValues(type.props, (propType, prop) => {
-                const schema = this.processType(propType);
-                const metadata = type[OPENAPI_METADATA]?.properties?.[prop];
-                if (!metadata) {
-                    return schema;
-                }
-                if ('$ref' in schema) {
-                    throw new Error(
-                        `Metadata cannot be added to a $ref property ${prop}, add it to the referenced schema instead: ${inspect(metadata, {
-                            compact: true,
-                        })}`,
-                    );
-                }
-                return {
-                    ...schema,
-                    ...metadata,
-                };
-            }),
+            properties: mapValues(type.props, (propType, prop) =>
+                this.withPropertyMetadata(
+                    this.processType(propType),
+                    type[OPENAPI_METADATA]?.properties?.[prop],
+                    type[DOC_METADATA]?.properties?.[prop],
+                ),
+            ),
             required: required.length ? required : undefined,
         });
     }
@@ -118,26 +146,26 @@ class OpenApiDefinitionsGenerator implements Visitor<OpenAPIV3.SchemaObject> {
                     enum: [type.value],
                 });
             default:
-                // Hier moeten we iets met `null`, die moet als `nullable` property worden opgenomen in de parent Schema object.
-                throw new Error(`${type.basicType} literal not supported yet`);
+                assert(type.value === null, `${type.basicType} literal not supported yet`);
+                // OpenAPI 3.0 has no `null` type, this is the closest we can get (`convertSchema` turns this into `type: 'null'` for 3.1).
+                // Unions with `null` are handled by `visitUnionType` by making the other members nullable.
+                return this.withMetadata(type, {
+                    title: this.customName(type),
+                    nullable: true,
+                    enum: [null],
+                });
         }
     }
 
     visitNumberType(type: BaseTypeImpl<number, NumberTypeConfig>): OpenAPIV3.SchemaObject {
-        const { max, maxExclusive, min, minExclusive, multipleOf } = type.typeConfig;
         return this.withMetadata(type, {
             title: this.customName(type),
-            type: Number.isInteger(multipleOf) ? 'integer' : 'number',
-            minimum: minExclusive ?? min,
-            exclusiveMinimum: minExclusive != null || undefined,
-            maximum: maxExclusive ?? max,
-            exclusiveMaximum: maxExclusive != null || undefined,
-            multipleOf: multipleOf === 1 ? undefined : multipleOf,
+            ...numberSchema(type.typeConfig),
         });
     }
 
     visitRecordType(
-        _type: RecordType<
+        type: RecordType<
             BaseTypeImpl<string | number, unknown>,
             string | number,
             BaseTypeImpl<unknown>,
@@ -145,80 +173,48 @@ class OpenApiDefinitionsGenerator implements Visitor<OpenAPIV3.SchemaObject> {
             Record<string | number, unknown>
         >,
     ): OpenAPIV3.SchemaObject {
-        throw new Error('Method not implemented.');
+        const { keyType, valueType } = type;
+        const valueSchema = this.processType(valueType);
+        const keys = fixedKeys(keyType);
+        if (keys) {
+            // a record with a known set of keys (e.g. `record(keyof({...}), valueType)`) is just an object with those properties
+            return this.withMetadata(type, {
+                title: this.customName(type),
+                type: 'object',
+                properties: Object.fromEntries(keys.map(key => [key, valueSchema])),
+                required: keys.length ? keys : undefined,
+                additionalProperties: false,
+            });
+        }
+        const schema: OpenAPIV3.SchemaObject = {
+            title: this.customName(type),
+            type: 'object',
+            additionalProperties: valueSchema,
+        };
+        // OpenAPI 3.0 has no `propertyNames`, so constraints on the keys of the record are documented using a vendor extension
+        const propertyNames = keyConstraints(keyType);
+        if (propertyNames) {
+            Object.assign(schema, { 'x-propertyNames': propertyNames });
+        }
+        return this.withMetadata(type, schema);
     }
 
     visitStringType(type: BaseTypeImpl<string, StringTypeConfig>): OpenAPIV3.SchemaObject {
-        const { maxLength, minLength, pattern } = type.typeConfig;
-        assert(!pattern?.flags, 'Regular expression flags are not supported in OpenAPI');
         return this.withMetadata(type, {
             title: this.customName(type),
-            type: 'string',
-            pattern: pattern?.toString().slice(1, -1),
-            minLength,
-            maxLength,
-            format: getFormat(type),
+            ...stringSchema(type.typeConfig),
         });
     }
 
     visitUnionType(type: UnionType<OneOrMore<BaseTypeImpl<unknown>>, unknown>): OpenAPIV3.SchemaObject {
-        // special case of a union of two types, of which one is `null`
         // once we upgrade to OpenAPI 3.1 this gets much easier as it supports `null` as a type
         // having nullable with a $ref in 3.0 is complicated: https://github.com/OAI/OpenAPI-Specification/issues/1368
-        const nullIndex = type.types.findIndex(subtype => subtype instanceof LiteralType && subtype.value === null);
-        if (nullIndex >= 0 && type.types.length === 2) {
-            const nulledType = type.types[1 - nullIndex];
-            assert(nulledType);
-            return {
-                description: `Nullable ${this.customName(nulledType) || nulledType.name}`,
-                allOf: [this.processType(nulledType)],
-                nullable: true,
-            };
-        }
-
-        switch (type.basicType) {
-            case 'boolean':
-                // TODO: Moeten we nog controleren of alle booleans (i.e. true en false) aanwezig zijn?
-                return this.withMetadata(type, {
-                    title: this.customName(type),
-                    type: 'boolean',
-                });
-        }
-        const oneOf: OpenAPIV3.SchemaObject = this.withMetadata(type, {
+        const members = type.types.filter(subtype => !isNullLiteral(subtype));
+        const schema = this.unionSchema(type, members);
+        return this.withMetadata(type, {
+            ...(members.length < type.types.length ? nullable(schema) : schema),
             title: this.customName(type),
-            oneOf: type.types.map(subtype => this.processType(subtype)),
         });
-        // see if we can determine discriminator values
-        if (type.possibleDiscriminators.length === 1 && type.possibleDiscriminators[0]?.path.length === 1) {
-            const discriminator = type.possibleDiscriminators[0];
-            const propertyName = discriminator.path[0];
-            assert(propertyName);
-            const mappings = discriminator.values.map(v => {
-                const subType = type.types.find(t => {
-                    if (!(t instanceof BaseObjectLikeTypeImpl)) {
-                        return;
-                    }
-                    const prop = t.props[propertyName];
-                    if (!(prop instanceof LiteralType)) {
-                        return;
-                    }
-                    return prop.value === v;
-                });
-                const ref = subType && this.processType(subType);
-                return [v, ref && '$ref' in ref ? ref.$ref : undefined] as const;
-            });
-            // only do this if we could find a subtype for every LiteralValue
-            if (mappings.every(([, t]) => !!t)) {
-                return {
-                    ...oneOf,
-                    discriminator: {
-                        propertyName,
-                        mapping: Object.fromEntries(mappings),
-                    },
-                };
-            }
-        }
-        return oneOf;
     }
 
     visitUnknownType(type: BaseTypeImpl<unknown>): OpenAPIV3.SchemaObject {
@@ -242,29 +238,33 @@ class OpenApiDefinitionsGenerator implements Visitor<OpenAPIV3.SchemaObject> {
         });
     }
 
-    visitCustomType(_type: BaseTypeImpl<unknown>): OpenAPIV3.SchemaObject {
-        throw new Error('Method not implemented.');
+    visitCustomType(type: BaseTypeImpl<unknown>): OpenAPIV3.SchemaObject {
+        // without a registered type mapping, the best we can do is describe the basic type the custom type is based on, including the
+        // constraints in its config (e.g. the `pattern` of a string)
+        return this.withMetadata(type, {
+            title: this.customName(type),
+            ...basicTypeSchema(type),
+        });
     }
 
     processType(type: BaseTypeImpl<unknown>) {
         let result = this.availableDefinitions.get(type);
         if (!result) {
             this.typeStack.push(type);
+            let name: string | undefined;
             try {
                 result = type.accept(this);
+                name = this.schemaName(type);
             } catch (e) {
-                console.error(chalk`{red ERROR:} Problem with {bold ${this.typeStack.map(t => t.name).join(' / ')}:}`);
-                console.error(e);
-                process.exit(1);
+                // only wrap the error once, at the innermost type that caused it
+                if (e instanceof SchemaGenerationError) throw e;
+                const typePath = this.typeStack.map(t => t.name);
+                throw new SchemaGenerationError(typePath, e);
             } finally {
                 this.typeStack.pop();
             }
-            let name = this.customName(type);
             if (name) {
                 // Toevoegen als named type
-                // Zoek naar een unieke naam in de huidige set van definitions. Voegt een cijfer toe achter de definitie-naam indien deze
-                // al in gebruik is.
-                for (let i = 2; name in this.schemas; name = `${type.name}${i++}`);
                 this.schemas[name] = result;
                 this.availableDefinitions.set(type, (result = { $ref: `${this.basePath}/${name}` }));
             } else {
@@ -281,30 +281,257 @@ class OpenApiDefinitionsGenerator implements Visitor<OpenAPIV3.SchemaObject> {
         }
     }
 
+    // The name of the schema of a (named) type. A nested type with the same name as another type is qualified with the name of the named
+    // type that contains it (e.g. `Order.Status`), instead of a number that depends on the order in which the types are processed.
+    private schemaName(type: BaseTypeImpl<unknown>) {
+        const name = this.customName(type);
+        if (!name || !this.isNameTaken(name, type)) return name;
+        const parent = this.typeStack
+            .slice(0, -1)
+            .reverse()
+            .map(t => this.customName(t))
+            .find(Boolean);
+        const qualifiedName = parent && `${parent}.${name}`;
+        if (!qualifiedName || this.isNameTaken(qualifiedName, type)) {
+            throw new Error(`multiple types are named "${name}", give them distinct names`);
+        }
+        return qualifiedName;
+    }
+
+    // the names of the top-level types are reserved for those types
+    private isNameTaken(name: string, type: BaseTypeImpl<unknown>) {
+        return name in this.schemas || [...this.topLevelTypes].some(([other, otherName]) => otherName === name && other !== type);
+    }
+
     private customName(type: BaseTypeImpl<any>) {
-        let name = this.topLevelTypes.get(type);
+        let name = this.topLevelTypes.get(type) ?? this.nameOverrides.get(type);
         if (name) return name;
         ({ name } = type);
         if (!/^\w+$/.test(name) || name === type.basicType || type instanceof LiteralType) return; // not a named type; inline in parent type
         return name;
     }
 
-    // adds any additional openapi configuration that was added to the type with `openApiMetadata()`
-    private withMetadata(type: BaseTypeImpl<any> & AnnotatedType, schema: OpenAPIV3.SchemaObject): OpenAPIV3.SchemaObject {
+    // generates an intersection as `allOf` composition of its members, so references to named (base) types are preserved
+    private intersectionSchema(
+        type: IntersectionType<OneOrMore<BaseObjectLikeTypeImpl<unknown>>, unknown> & AnnotatedType,
+    ): OpenAPIV3.SchemaObject {
+        const name = this.customName(type);
+        const propertyMetadata = { ...type[OPENAPI_METADATA]?.properties };
+        const propertyDocs = { ...type[DOC_METADATA]?.properties };
+        const allOf = type.types.map((member): OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject => {
+            // `object('Pet', {...}).withOptional({...})` results in an intersection with a member that has the same name
+            if (name && this.customName(member) === name) {
+                this.nameOverrides.set(member, `${name}Base`);
+            }
+            const schema = this.processType(member);
+            if ('$ref' in schema || !schema.properties) {
+                return schema;
+            }
+            // property metadata of the intersection is added to the inline member that declares the property
+            const properties = mapValues(schema.properties, (propSchema, prop) => {
+                const metadata = propertyMetadata[prop];
+                const docs = propertyDocs[prop];
+                delete propertyMetadata[prop];
+                delete propertyDocs[prop];
+                return this.withPropertyMetadata(propSchema, metadata, docs);
+            });
+            return { ...schema, properties };
+        });
+        // the remaining metadata is about properties of referenced members, which cannot be changed
+        const remaining = mapValues({ ...propertyDocs, ...propertyMetadata }, (_, prop) => ({
+            ...propertyDocs[prop],
+            ...withExampleValues(propertyMetadata[prop]),
+        }));
+        if (!isEmpty(remaining)) {
+            allOf.push({ properties: remaining });
+        }
+        return this.withMetadata(type, {
+            title: name,
+            allOf,
+        });
+    }
+
+    // the schema of a union of the given members (of the union type), the caller is responsible for adding `null`
+    private unionSchema(
+        type: UnionType<OneOrMore<BaseTypeImpl<unknown>>, unknown>,
+        members: BaseTypeImpl<unknown>[],
+    ): OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject {
+        const [first] = members;
+        assert(first, 'union of only null is not supported');
+        if (members.length === 1) {
+            return this.processType(first);
+        }
+        if (members.every(member => member.basicType === 'boolean')) {
+            // TODO: Moeten we nog controleren of alle booleans (i.e. true en false) aanwezig zijn?
+            return { type: 'boolean' };
+        }
+        if (members.every(member => member instanceof LiteralType && member.basicType === first.basicType)) {
+            // a union of literals of the same type is an enum
+            const values = members.map(member => (member as LiteralType<LiteralValue>).value);
+            return {
+                type: values.every(Number.isInteger) ? 'integer' : (first.basicType as 'string' | 'number'),
+                enum: values,
+            };
+        }
+        const oneOf: OpenAPIV3.SchemaObject = {
+            oneOf: members.map(subtype => this.processType(subtype)),
+        };
+        // see if we can determine discriminator values
+        if (type.possibleDiscriminators.length === 1 && type.possibleDiscriminators[0]?.path.length === 1) {
+            const discriminator = type.possibleDiscriminators[0];
+            const propertyName = discriminator.path[0];
+            assert(propertyName);
+            const mappings = discriminator.values.map(v => {
+                const subType = members.find(t => {
+                    if (!(t instanceof BaseObjectLikeTypeImpl)) {
+                        return;
+                    }
+                    const prop = t.props[propertyName];
+                    if (!(prop instanceof LiteralType)) {
+                        return;
+                    }
+                    return prop.value === v;
+                });
+                const ref = subType && this.processType(subType);
+                return [v, ref && '$ref' in ref ? ref.$ref : undefined] as const;
+            });
+            // only do this if we could find a subtype for every LiteralValue
+            if (mappings.every(([, t]) => !!t)) {
+                return {
+                    ...oneOf,
+                    discriminator: {
+                        propertyName,
+                        mapping: Object.fromEntries(mappings),
+                    },
+                };
+            }
+        }
+        return oneOf;
+    }
+
+    // adds the metadata that was added to a property of an object type with `openApiMetadata()` or extracted from its doc comment
+    private withPropertyMetadata(
+        schema: OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject,
+        metadata: Record<string, unknown> | undefined,
+        docs?: Record<string, unknown>,
+    ) {
+        if (!metadata && !docs) {
+            return schema;
+        }
+        if ('$ref' in schema) {
+            // a property with a named type (e.g. `int`), siblings of a `$ref` are ignored in OpenAPI 3.0
+            return { allOf: [schema], ...docs, ...withExampleValues(metadata) };
+        }
         return {
             ...schema,
-            ...type[OPENAPI_METADATA]?.metadata,
+            ...docs,
+            ...withExampleValues(metadata),
         };
     }
+
+    // adds any additional openapi configuration that was registered with `registerTypeMapping()`, extracted from the doc comments of the
+    // type or added to the type with `openApiMetadata()`
+    private withMetadata(type: BaseTypeImpl<any> & AnnotatedType, schema: OpenAPIV3.SchemaObject): OpenAPIV3.SchemaObject {
+        const mapping = findTypeMapping(type);
+        return {
+            ...(mapping?.schema ? { title: schema.title, ...mapping.schema } : schema),
+            ...(mapping?.format && { format: mapping.format }),
+            ...mapping?.keywords,
+            ...type[DOC_METADATA]?.metadata,
+            ...withExampleValues(type[OPENAPI_METADATA]?.metadata),
+        };
+    }
+}
+
+// named examples only end up in the media types, the schema gets their values
+function withExampleValues(metadata: Record<string, unknown> | undefined) {
+    if (!metadata?.['examples']) return metadata;
+    return { ...metadata, examples: exampleValues(metadata['examples']) };
+}
+
+function isNullLiteral(type: BaseTypeImpl<unknown>) {
+    return type instanceof LiteralType && type.value === null;
+}
+
+/**
+ * Makes the schema nullable in the OpenAPI 3.0 way: `nullable: true` for inline schemas (with `null` added to the enum, if any) and a
+ * nullable `allOf` wrapper for a `$ref`, because `nullable` is ignored next to a `$ref`.
+ */
+function nullable(schema: OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject): OpenAPIV3.SchemaObject {
+    if ('$ref' in schema) {
+        return { allOf: [schema], nullable: true };
+    }
+    return {
+        ...schema,
+        nullable: true,
+        enum: schema.enum && uniq([...schema.enum, null]),
+    };
+}
+
+function basicTypeSchema(type: BaseTypeImpl<unknown>): OpenAPIV3.SchemaObject {
+    switch (type.basicType) {
+        case 'string':
+            return stringSchema({ ...(type.typeConfig as StringTypeConfig | undefined) });
+        case 'number':
+            return numberSchema({ ...(type.typeConfig as NumberTypeConfig | undefined) });
+        case 'boolean':
+        case 'object':
+            return { type: type.basicType };
+        case 'array':
+            return { type: 'array', items: {} };
+        default:
+            return {};
+    }
+}
+
+function stringSchema({ maxLength, minLength, pattern }: StringTypeConfig): OpenAPIV3.SchemaObject {
+    assert(!pattern?.flags, 'Regular expression flags are not supported in OpenAPI');
+    return {
+        type: 'string',
+        pattern: pattern?.toString().slice(1, -1),
+        minLength,
+        maxLength,
+    };
 }
 
-function getFormat(type: BaseTypeImpl<unknown, unknown>): string | undefined {
-    switch (type) {
-        // could be used to match specific skunkteam/types to known openapi schema types
-        // case ISODate:
-        //     return 'date';
-        // case ISODateTime:
-        //     return 'date-time';
+function numberSchema({ max, maxExclusive, min, minExclusive, multipleOf }: NumberTypeConfig): OpenAPIV3.SchemaObject {
+    return {
+        type: Number.isInteger(multipleOf) ? 'integer' : 'number',
+        minimum: minExclusive ?? min,
+        exclusiveMinimum: minExclusive != null || undefined,
+        maximum: maxExclusive ?? max,
+        exclusiveMaximum: maxExclusive != null || undefined,
+        multipleOf: multipleOf === 1 ? undefined : multipleOf,
+    };
+}
+
+/** Returns the fixed set of keys of a record when the key type only allows a known set of values. */
+function fixedKeys(keyType: BaseTypeImpl<unknown>): string[] | undefined {
+    if (keyType instanceof KeyofType) {
+        return Object.keys(keyType.keys);
+    }
+    if (keyType instanceof LiteralType) {
+        return [String(keyType.value)];
+    }
+    if (keyType instanceof UnionType) {
+        const keys = (keyType.types as BaseTypeImpl<unknown>[]).map(fixedKeys);
+        return keys.every(Boolean) ? uniq(keys.flat() as string[]) : undefined;
+    }
+    return;
+}
+
+/** Returns the constraints on the keys of a record that can be expressed as a (string) schema, if any. */
+function keyConstraints(keyType: BaseTypeImpl<unknown>): OpenAPIV3.SchemaObject | undefined {
+    switch (keyType.basicType) {
+        case 'string': {
+            const { maxLength, minLength, pattern } = (keyType as BaseTypeImpl<string, StringTypeConfig>).typeConfig ?? {};
+            if (maxLength == null && minLength == null && !pattern) return;
+            assert(!pattern?.flags, 'Regular expression flags are not supported in OpenAPI');
+            return { pattern: pattern?.toString().slice(1, -1), minLength, maxLength };
+        }
+        case 'number':
+            // keys of objects are always strings in JSON, so number keys have to be expressed as a pattern
+            return { pattern: '^-?\\d+(\\.\\d+)?$' };
         default:
             return;
     }
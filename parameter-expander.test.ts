@@ -0,0 +1,73 @@
+import { array, int, object, string } from '@skunkteam/types';
+import assert from 'assert';
+import { test } from 'node:test';
+import { openApiMetadata } from './metadata';
+import { generateSchemas } from './openapi-definitions-generator';
+import { expandParameters, GENERATED_PARAMETER } from './parameter-expander';
+
+const PetQuery = object('PetQuery', { petId: string }).withOptional({ tags: array(string), limit: int });
+openApiMetadata(PetQuery, {}, { petId: { description: 'the id of the pet', example: 'p1' }, tags: { deprecated: true } });
+
+const SCHEMAS_REF = './openapi.types.yml#/components/schemas';
+
+test('the properties of an object type are expanded into parameters', () => {
+    // with `preserveIntersections` the schema is an `allOf` of a `$ref` to `PetQueryBase`, the optional properties and the metadata
+    for (const preserveIntersections of [false, true]) {
+        assert.deepStrictEqual(expand({ pathParameters: ['petId'] }, preserveIntersections), [
+            {
+                name: 'petId',
+                in: 'path',
+                description: 'the id of the pet',
+                required: true,
+                schema: { type: 'string' },
+                example: 'p1',
+                [GENERATED_PARAMETER]: true,
+            },
+            {
+                name: 'tags',
+                in: 'query',
+                required: false,
+                deprecated: true,
+                style: 'form',
+                explode: true,
+                schema: { type: 'array', items: { type: 'string' } },
+                [GENERATED_PARAMETER]: true,
+            },
+            {
+                name: 'limit',
+                in: 'query',
+                required: false,
+                schema: { $ref: `${SCHEMAS_REF}/int` },
+                [GENERATED_PARAMETER]: true,
+            },
+        ]);
+    }
+});
+
+test('the required flags and array style depend on the location of the parameters', () => {
+    const parameters = expand({ location: 'header', pathParameters: [] }, false);
+    assert.deepStrictEqual(
+        parameters.map(({ name, required, style, explode }) => ({ name, required, style, explode })),
+        [
+            { name: 'petId', required: true, style: undefined, explode: undefined },
+            { name: 'tags', required: false, style: 'simple', explode: false },
+            { name: 'limit', required: false, style: undefined, explode: undefined },
+        ],
+    );
+});
+
+test('a property without a schema is an error instead of a parameter without a schema', () => {
+    const options = { pathParameters: [], schemasRef: SCHEMAS_REF, schemas: {} };
+    assert.throws(() => expandParameters(PetQuery, { type: 'object' }, options), /has no property "petId"/);
+    assert.throws(() => expandParameters(PetQuery, { allOf: [{ $ref: '#/components/schemas/Other' }] }, options), /cannot resolve/);
+});
+
+function expand(options: Pick<Parameters<typeof expandParameters>[2], 'location' | 'pathParameters'>, preserveIntersections: boolean) {
+    const { components } = generateSchemas('components/schemas', { PetQuery }, { preserveIntersections }) as {
+        components: { schemas: Record<string, object> };
+    };
+    const { PetQuery: schema = {} } = components.schemas;
+    const parameters = expandParameters(PetQuery, schema, { ...options, schemasRef: SCHEMAS_REF, schemas: components.schemas });
+    // without the `undefined` keywords
+    return JSON.parse(JSON.stringify(parameters)) as typeof parameters;
+}
@@ -0,0 +1,106 @@
+import type { BaseObjectLikeTypeImpl } from '@skunkteam/types';
+import { cloneDeep } from 'lodash';
+import type { OpenAPIV3 } from 'openapi-types';
+
+/**
+ * The extension that marks the parameters that were generated from a `x-skunkteam-parameters` annotation, and the named examples that were
+ * added to the media types of `x-skunkteam-type` annotations
+ */
+export const GENERATED_PARAMETER = 'x-skunkteam-generated';
+
+export type ParameterLocation = 'path' | 'query' | 'header' | 'cookie';
+
+type Parameter = OpenAPIV3.ParameterObject & { [GENERATED_PARAMETER]: true };
+
+type Schema = OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject;
+
+export type ExpandParametersOptions = {
+    location?: ParameterLocation;
+    pathParameters: string[];
+    /** the reference to the generated schemas, relative to the spec file */
+    schemasRef: string;
+    /** the generated schemas, to resolve the `$ref`s to the members of the schema of the object type */
+    schemas: Record<string, Schema>;
+};
+
+/**
+ * Expands the properties of an object type into parameters. The (generated) schema of the object type provides the schemas and descriptions
+ * of the parameters, also when it is an `allOf` composition (see `preserveIntersections`). Its local `$ref`s are made relative to the spec
+ * file using `schemasRef`. Properties are path parameters when they occur in the given path parameters and query parameters otherwise,
+ * unless the location is given explicitly.
+ */
+export function expandParameters(
+    type: BaseObjectLikeTypeImpl<unknown>,
+    schema: OpenAPIV3.SchemaObject,
+    { location, pathParameters, schemasRef, schemas }: ExpandParametersOptions,
+): Parameter[] {
+    const properties = propertySchemas(schema, schemas);
+    return Object.entries(type.propsInfo).map(([name, info]) => {
+        const property = properties[name];
+        if (!property) {
+            throw new Error(`the schema of ${type.name} has no property "${name}", so it can not be expanded into a parameter`);
+        }
+        const propertySchema = cloneDeep(property) as OpenAPIV3.SchemaObject;
+        // these are part of the parameter instead of the schema
+        const { description, deprecated, example } = propertySchema;
+        delete propertySchema.description;
+        delete propertySchema.deprecated;
+        delete propertySchema.example;
+        const parameterLocation = location ?? (pathParameters.includes(name) ? 'path' : 'query');
+        return {
+            name,
+            in: parameterLocation,
+            ...(description !== undefined && { description }),
+            // path parameters are always required
+            required: parameterLocation === 'path' || info?.partial === false,
+            ...(deprecated !== undefined && { deprecated }),
+            ...(propertySchema.type === 'array' && arrayStyle(parameterLocation)),
+            schema: rewriteRefs(propertySchema, schemasRef),
+            ...(example !== undefined && { example }),
+            [GENERATED_PARAMETER]: true,
+        };
+    });
+}
+
+/** the names of the parameters in a path template, e.g. `petId` for `/pets/{petId}` */
+export function pathParameterNames(pathTemplate: string) {
+    return pathTemplate.match(/\{[^}]+\}/g)?.map(parameter => parameter.slice(1, -1)) ?? [];
+}
+
+// the schemas of the properties of an object schema, including the properties of its `allOf` members (which may be `$ref`s), the last
+// member is the metadata of the properties of the other members when those are referenced (see `intersectionSchema`)
+function propertySchemas(schema: Schema, schemas: Record<string, Schema>): Record<string, Schema> {
+    if ('$ref' in schema) {
+        const referenced = schemas[schema.$ref.replace(/^#\/components\/schemas\//, '')];
+        if (!referenced) throw new Error(`cannot resolve ${schema.$ref} to expand it into parameters`);
+        return propertySchemas(referenced, schemas);
+    }
+    const properties: Record<string, Schema> = {};
+    const members = [...(schema.allOf ?? []).map(member => propertySchemas(member, schemas)), schema.properties ?? {}];
+    for (const [name, propertySchema] of members.flatMap(member => Object.entries(member))) {
+        properties[name] = { ...properties[name], ...propertySchema };
+    }
+    return properties;
+}
+
+// `?id=1&id=2` for query (and cookie) parameters and `1,2` for path and header parameters
+function arrayStyle(location: ParameterLocation) {
+    return location === 'query' || location === 'cookie' ? { style: 'form', explode: true } : { style: 'simple', explode: false };
+}
+
+function rewriteRefs<T>(schema: T, schemasRef: string): T {
+    if (Array.isArray(schema)) {
+        return schema.map(item => rewriteRefs(item, schemasRef)) as unknown as T;
+    }
+    if (typeof schema === 'object' && schema) {
+        const result: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(schema)) {
+            result[key] =
+                key === '$ref' && typeof value === 'string'
+                    ? value.replace(/^#\/components\/schemas\//, `${schemasRef}/`)
+                    : rewriteRefs(value, schemasRef);
+        }
+        return result as T;
+    }
+    return schema;
+}
@@ -0,0 +1,31 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import type { Schemas } from './openapi-definitions-generator';
+import { withReadWriteVariants } from './read-write-variants';
+
+const REF_PATH = '#/components/schemas';
+
+test('the input variant drops the readOnly properties, also of a named type', () => {
+    const schemas: Schemas = {
+        int: { type: 'integer' },
+        Pet: {
+            type: 'object',
+            properties: { id: { allOf: [{ $ref: `${REF_PATH}/int` }], readOnly: true }, name: { type: 'string' } },
+            required: ['id', 'name'],
+        },
+        User: {
+            type: 'object',
+            properties: { pet: { $ref: `${REF_PATH}/Pet` }, password: { type: 'string', writeOnly: true } },
+        },
+    };
+    assert.deepStrictEqual(withReadWriteVariants(schemas, REF_PATH), {
+        int: { type: 'integer' },
+        Pet: schemas['Pet'],
+        PetInput: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+        User: { type: 'object', properties: { pet: { $ref: `${REF_PATH}/Pet` } } },
+        UserInput: {
+            type: 'object',
+            properties: { pet: { $ref: `${REF_PATH}/PetInput` }, password: { type: 'string', writeOnly: true } },
+        },
+    });
+});
@@ -0,0 +1,103 @@
+import type { OpenAPIV3 } from 'openapi-types';
+import type { Schemas } from './openapi-definitions-generator';
+import { isSchema, JsonSchema, mapSubschemas } from './schema-versions';
+
+/** The suffix of the name of the input variant of a schema, e.g. `PetInput` for `Pet` */
+export const INPUT_VARIANT_SUFFIX = 'Input';
+
+/**
+ * Splits the schemas into an output variant and an input variant. The output variant keeps the name of the schema and drops the
+ * `writeOnly` properties. The input variant drops the `readOnly` properties and is only added for schemas that (indirectly) have
+ * `readOnly` or `writeOnly` properties, its `$ref`s refer to the input variants of the referenced schemas.
+ */
+export function withReadWriteVariants(generated: Schemas, refPath: string): Schemas {
+    const schemas = generated as Record<string, JsonSchema>;
+    const inputVariants = namesWithInputVariant(schemas, refPath);
+    const result: Schemas = {};
+    for (const [name, schema] of Object.entries(schemas)) {
+        result[name] = dropProperties(schema, 'writeOnly') as OpenAPIV3.SchemaObject;
+        if (!inputVariants.has(name)) continue;
+        const inputName = name + INPUT_VARIANT_SUFFIX;
+        if (inputName in schemas) {
+            throw new Error(`the input variant of ${name} has the same name as the schema ${inputName}`);
+        }
+        const input = dropProperties(
+            mapRefs(schema, ref => inputRef(ref, refPath, inputVariants)),
+            'readOnly',
+        );
+        result[inputName] = (schema['title'] === name ? { ...input, title: inputName } : input) as OpenAPIV3.SchemaObject;
+    }
+    return result;
+}
+
+// the schemas that have `readOnly` or `writeOnly` properties themselves or refer to a schema that has an input variant
+function namesWithInputVariant(schemas: Record<string, JsonSchema>, refPath: string) {
+    const differs = (schema: JsonSchema = {}) => hasProperty(schema, 'readOnly') || hasProperty(schema, 'writeOnly');
+    const names = new Set(Object.keys(schemas).filter(name => differs(schemas[name])));
+    for (let added = true; added; ) {
+        added = false;
+        for (const [name, schema] of Object.entries(schemas)) {
+            if (!names.has(name) && refs(schema).some(ref => names.has(schemaName(ref, refPath)))) {
+                names.add(name);
+                added = true;
+            }
+        }
+    }
+    return names;
+}
+
+// whether the schema has a property with the given flag, without following `$ref`s
+function hasProperty(schema: JsonSchema, flag: 'readOnly' | 'writeOnly'): boolean {
+    const properties = isSchema(schema['properties']) ? Object.values(schema['properties']) : [];
+    return (
+        properties.some(property => isSchema(property) && property[flag] === true) ||
+        subschemas(schema).some(subschema => hasProperty(subschema, flag))
+    );
+}
+
+// removes the properties with the given flag from the schema and all of its subschemas
+function dropProperties(schema: JsonSchema, flag: 'readOnly' | 'writeOnly'): JsonSchema {
+    const result = mapSubschemas(schema, subschema => dropProperties(subschema, flag));
+    const properties = result['properties'];
+    if (!isSchema(properties)) return result;
+    const dropped = Object.keys(properties).filter(name => {
+        const property = properties[name];
+        return isSchema(property) && property[flag] === true;
+    });
+    if (!dropped.length) return result;
+    result['properties'] = Object.fromEntries(Object.entries(properties).filter(([name]) => !dropped.includes(name)));
+    const required = Array.isArray(result['required']) ? result['required'].filter(name => !dropped.includes(name)) : undefined;
+    if (required?.length) {
+        result['required'] = required;
+    } else {
+        delete result['required'];
+    }
+    return result;
+}
+
+function refs(schema: JsonSchema): string[] {
+    return typeof schema['$ref'] === 'string' ? [schema['$ref']] : subschemas(schema).flatMap(refs);
+}
+
+function subschemas(schema: JsonSchema) {
+    const result: JsonSchema[] = [];
+    mapSubschemas(schema, subschema => {
+        result.push(subschema);
+        return subschema;
+    });
+    return result;
+}
+
+function mapRefs(schema: JsonSchema, fn: (ref: string) => string): JsonSchema {
+    if (typeof schema['$ref'] === 'string') return { ...schema, $ref: fn(schema['$ref']) };
+    return mapSubschemas(schema, subschema => mapRefs(subschema, fn));
+}
+
+function inputRef(ref: string, refPath: string, inputVariants: Set<string>) {
+    return inputVariants.has(schemaName(ref, refPath)) ? ref + INPUT_VARIANT_SUFFIX : ref;
+}
+
+// `Pet` for `#/components/schemas/Pet`
+function schemaName(ref: string, refPath: string) {
+    return ref.startsWith(`${refPath}/`) ? ref.slice(refPath.length + 1) : '';
+}
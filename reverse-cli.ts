@@ -0,0 +1,61 @@
+#!/usr/bin/env ts-node
+
+import SwaggerParser from '@apidevtools/swagger-parser';
+import chalk from 'chalk';
+import { promises } from 'fs';
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import path from 'path';
+import { generateTypesSource, specAnnotations } from './reverse-generator';
+import { openApiVersion } from './schema-versions';
+import { updateValues } from './spec-editor';
+
+const ARGS = process.argv.slice(2);
+const [OPENAPI_FILE, TYPES_FILE] = ARGS.filter(arg => !arg.startsWith('--'));
+// --metadata-module=<module>: the module to import `openApiMetadata` from in the generated types module
+const METADATA_MODULE = ARGS.find(arg => arg.startsWith('--metadata-module='))?.split('=')[1];
+// --no-annotate: only generate the types module, leave the openapi yaml file untouched
+const ANNOTATE = !ARGS.includes('--no-annotate');
+if (!OPENAPI_FILE || !TYPES_FILE) {
+    console.log(
+        chalk.redBright('Supply path to openapi yaml file as first argument and path to the typescript file to generate as second'),
+    );
+    process.exit(1);
+}
+
+(async () => {
+    // only parse (do not resolve) as we need the `$ref`s to the schemas
+    const api = await new SwaggerParser().parse(OPENAPI_FILE);
+    if (!openApiVersion(api)) {
+        throw new Error('only supports OpenAPI v3.0 and v3.1');
+    }
+    const spec = api as OpenAPIV3.Document | OpenAPIV3_1.Document;
+    const schemaNames = Object.keys(spec.components?.schemas ?? {});
+    console.log(chalk.gray(`found ${schemaNames.length} schemas in ${OPENAPI_FILE}`));
+
+    // generate everything before writing, so we do not leave a half converted spec behind in case of errors
+    const source = generateTypesSource(spec, { metadataModule: METADATA_MODULE });
+    // the annotations are added to the source of the spec, so its comments and formatting are preserved
+    const annotated =
+        ANNOTATE &&
+        updateValues(
+            await promises.readFile(OPENAPI_FILE, 'utf8'),
+            specAnnotations(spec, moduleSpecifier(OPENAPI_FILE, TYPES_FILE), schemaNames),
+            /\.json$/i.test(OPENAPI_FILE) ? 'json' : 'yaml',
+        );
+
+    await promises.writeFile(TYPES_FILE, source + '\n', 'utf8');
+    console.log(chalk.greenBright(`wrote ${TYPES_FILE}`));
+    if (annotated) {
+        await promises.writeFile(OPENAPI_FILE, annotated, 'utf8');
+        console.log(chalk.greenBright(`wrote ${OPENAPI_FILE}`));
+    }
+})().catch(e => {
+    console.log(chalk.redBright(String(e)));
+    process.exit(1);
+});
+
+// the path of the types module relative to the openapi file, as used in `x-skunkteam-type` annotations
+function moduleSpecifier(specFile: string, typesFile: string) {
+    const relative = path.relative(path.dirname(specFile), typesFile).split(path.sep).join('/');
+    return relative.startsWith('.') ? relative : `./${relative}`;
+}
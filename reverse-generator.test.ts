@@ -0,0 +1,190 @@
+import assert from 'assert';
+import { promises } from 'fs';
+import { load } from 'js-yaml';
+import { sortBy } from 'lodash';
+import { test } from 'node:test';
+import type { OpenAPIV3 } from 'openapi-types';
+import path from 'path';
+import { generateSchemas, TypeDefs } from './openapi-definitions-generator';
+import { generateTypesSource, ReverseGenerationError, specAnnotations } from './reverse-generator';
+import { updateValues } from './spec-editor';
+
+type Schema = Record<string, unknown>;
+
+const NESTED_METADATA_SPEC = `
+openapi: 3.0.3
+info: { title: events, version: '1' }
+paths: {}
+components:
+  schemas:
+    Event:
+      type: object
+      required: [at]
+      properties:
+        at: { type: string, format: date-time }
+        ids:
+          type: array
+          items: { type: string, format: uuid, description: the id of a related event }
+        location:
+          type: object
+          description: where the event takes place
+          properties:
+            lat: { type: number, format: double, minimum: -90, maximum: 90 }
+            lng: { type: number, format: double }
+        scores:
+          type: array
+          items: { type: integer, format: int32, example: 7 }
+`;
+
+const ANNOTATED_SPEC = `openapi: 3.0.3
+info: { title: pets, version: '1' }
+paths:
+  /pets:
+    get:
+      responses:
+        '200':
+          description: the pets # all of them
+          content:
+            application/json:
+              schema:
+                type: array
+                items:
+                  $ref: '#/components/schemas/Pet' # a single pet
+components:
+  schemas:
+    Pet:
+      type: object
+      properties:
+        name: { type: string }
+        parent: { $ref: '#/components/schemas/PetName' }
+    PetName: { type: string }
+`;
+
+test('the schemas of openapi.original.yml survive the reverse and the forward generator', async () => {
+    const api = load(await promises.readFile(path.join(__dirname, 'openapi.original.yml'), 'utf8')) as OpenAPIV3.Document;
+    await assertRoundTrip(api);
+});
+
+test('the metadata of nested schemas survives the reverse and the forward generator', async () => {
+    const api = load(NESTED_METADATA_SPEC) as OpenAPIV3.Document;
+    const source = generateTypesSource(api);
+    assert.match(source, /^const Event_ids_items = string\.withConfig\('Event\.ids\[\]', \{\}\);$/m);
+    assert.match(source, /^const Event_location = partial\(\{$/m);
+    await assertRoundTrip(api);
+});
+
+test('schemas that cannot be converted result in a readable error', () => {
+    const schemas = (components: Record<string, unknown>) => ({
+        openapi: '3.0.3',
+        info: { title: '', version: '' },
+        paths: {},
+        components,
+    });
+    const recursive = schemas({
+        schemas: {
+            Node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Child' } } } },
+            Child: { allOf: [{ $ref: '#/components/schemas/Node' }] },
+        },
+    });
+    assert.throws(
+        () => generateTypesSource(recursive as OpenAPIV3.Document),
+        (e: unknown) =>
+            e instanceof ReverseGenerationError && e.message === 'Node: recursive schemas are not supported (Node -> Child -> Node)',
+    );
+    const nestedBoolean = schemas({
+        schemas: { Flags: { type: 'array', items: { type: 'boolean', description: 'a flag' } } },
+    });
+    assert.throws(() => generateTypesSource(nestedBoolean as OpenAPIV3.Document), /^ReverseGenerationError: Flags\[\]: metadata/);
+    const missing = schemas({ schemas: { Pet: { $ref: '#/components/schemas/Animal' } } });
+    assert.throws(() => generateTypesSource(missing as OpenAPIV3.Document), ReverseGenerationError);
+});
+
+test('the schemas of OpenAPI 3.1 are read in the OpenAPI 3.0 dialect', () => {
+    const document = (openapi: string, schemas: Record<string, unknown>) => ({
+        openapi,
+        info: { title: '', version: '' },
+        paths: {},
+        components: { schemas },
+    });
+    const v31 = document('3.1.0', {
+        Name: { type: ['string', 'null'], examples: ['Rex'] },
+        Kind: { const: 'dog' },
+        Age: { type: 'integer', exclusiveMinimum: 0 },
+        Owner: { anyOf: [{ $ref: '#/components/schemas/Name' }, { type: 'null' }] },
+    });
+    const v30 = document('3.0.3', {
+        Name: { type: 'string', nullable: true, example: 'Rex' },
+        Kind: { enum: ['dog'] },
+        Age: { type: 'integer', minimum: 0, exclusiveMinimum: true },
+        Owner: { allOf: [{ $ref: '#/components/schemas/Name' }], nullable: true },
+    });
+    assert.strictEqual(generateTypesSource(v31 as OpenAPIV3.Document), generateTypesSource(v30 as OpenAPIV3.Document));
+});
+
+test('the annotations are added to the source of the spec, the $refs and schemas are kept', () => {
+    const api = load(ANNOTATED_SPEC) as OpenAPIV3.Document;
+    const updates = specAnnotations(api, '../types.ts', ['Pet', 'PetName']);
+    assert.deepStrictEqual(
+        updateValues(ANNOTATED_SPEC, updates, 'yaml'),
+        ANNOTATED_SPEC.replace(
+            "$ref: '#/components/schemas/Pet' # a single pet\n",
+            "$ref: '#/components/schemas/Pet' # a single pet\n                  x-skunkteam-type: ../types.ts#Pet\n",
+        ),
+    );
+});
+
+// converts the schemas of the document to skunkteam types and back and compares the result with the original schemas
+async function assertRoundTrip(api: OpenAPIV3.Document) {
+    const original = api.components?.schemas as Record<string, Schema>;
+    const source = generateTypesSource(api, { metadataModule: path.join(__dirname, 'metadata') });
+
+    // the generated module is written next to this file, so it resolves @skunkteam/types like the other modules
+    const dir = await promises.mkdtemp(path.join(__dirname, '.round-trip-'));
+    try {
+        await promises.writeFile(path.join(dir, 'types.ts'), source, 'utf8');
+        const types = (await import(path.join(dir, 'types.ts'))) as TypeDefs;
+        const { components } = generateSchemas('components/schemas', types) as { components: { schemas: Record<string, Schema> } };
+        for (const name of Object.keys(original)) {
+            const generated = normalize(components.schemas[name], original, components.schemas);
+            assert.deepStrictEqual(generated, normalize(original[name], original, original), `schema ${name}`);
+        }
+    } finally {
+        await promises.rm(dir, { recursive: true, force: true });
+    }
+}
+
+// Removes the differences that do not change the meaning of a schema: titles, vendor extensions, `allOf` wrappers of a single schema and
+// `$ref`s to schemas that only exist in the generated schemas (e.g. `int`).
+function normalize(schema: unknown, original: Record<string, unknown>, schemas: Record<string, Schema>): Schema {
+    const { $ref, allOf, title: _title, ...rest } = JSON.parse(JSON.stringify(schema ?? {})) as Schema;
+    if (typeof $ref === 'string') {
+        const name = $ref.replace('#/components/schemas/', '');
+        return name in original ? { $ref } : normalize(schemas[name], original, schemas);
+    }
+    const result: Schema = {};
+    for (const [key, value] of Object.entries(rest)) {
+        if (key.startsWith('x-')) continue;
+        if (key === 'properties') {
+            const properties = Object.entries(value as Schema).map(([prop, propSchema]) => [
+                prop,
+                normalize(propSchema, original, schemas),
+            ]);
+            result[key] = Object.fromEntries(properties);
+        } else if (key === 'items') {
+            result[key] = normalize(value, original, schemas);
+        } else if (key === 'required') {
+            result[key] = sortBy(value as string[]);
+        } else {
+            result[key] = value;
+        }
+    }
+    // examples are type checked, so numeric examples of strings become strings
+    if (result['type'] === 'string' && typeof result['example'] === 'number') {
+        result['example'] = String(result['example']);
+    }
+    if (Array.isArray(allOf) && allOf.length === 1) {
+        const member = normalize(allOf[0], original, schemas);
+        return '$ref' in member ? { allOf: [member], ...result } : { ...member, ...result };
+    }
+    return allOf ? { allOf, ...result } : result;
+}
@@ -0,0 +1,367 @@
+import assert from 'assert';
+import { isEmpty, mapValues, pickBy, uniq } from 'lodash';
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import { fromOpenApi31, openApiVersion } from './schema-versions';
+import type { ValueUpdate } from './spec-editor';
+
+export type ReverseGeneratorOptions = {
+    /** the module that exports `openApiMetadata`, defaults to `openapi-skunkteam-types` */
+    metadataModule?: string;
+};
+
+type Schema = OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject;
+
+const SCHEMA_REF = /^#\/components\/schemas\/([^/]+)$/;
+const INDENT = '    ';
+// the keywords that are added to the types using `openApiMetadata`
+const METADATA_KEYS = ['description', 'deprecated', 'format', 'xml', 'example'] as const;
+
+/** A schema that cannot be converted to a skunkteam type, e.g. a recursive schema */
+export class ReverseGenerationError extends Error {
+    override readonly name = 'ReverseGenerationError';
+    constructor(readonly path: string, readonly problem: string) {
+        super(`${path}: ${problem}`);
+    }
+}
+
+/**
+ * Generates the source of a TypeScript module with @skunkteam/types declarations for all schemas in `components/schemas` of the given
+ * OpenAPI 3.0 or 3.1 document. Descriptions, formats, examples, deprecation and xml settings are added using `openApiMetadata` calls, so
+ * the forward generator reproduces equivalent schemas. Schemas that cannot be converted (e.g. recursive schemas) result in a
+ * `ReverseGenerationError`.
+ */
+export function generateTypesSource(api: OpenAPIV3.Document | OpenAPIV3_1.Document, options: ReverseGeneratorOptions = {}) {
+    // the schemas of OpenAPI 3.1 are read in the OpenAPI 3.0 dialect, which is the dialect that the forward generator starts from
+    const schemas =
+        openApiVersion(api) === '3.1'
+            ? mapValues((api as OpenAPIV3_1.Document).components?.schemas, fromOpenApi31)
+            : ((api as OpenAPIV3.Document).components?.schemas as Record<string, Schema> | undefined) ?? {};
+    const imports = new Set<string>(['The']);
+    const identifiers = new Set(Object.keys(schemas));
+    const declarations = sortByDependencies(schemas).map(name => {
+        const schema = schemas[name];
+        assert(schema);
+        return new DeclarationWriter(name, schemas, imports, identifiers).write(schema);
+    });
+    const header = [
+        `import { ${[...imports].sort(byName).join(', ')} } from '@skunkteam/types';`,
+        `import { openApiMetadata } from '${options.metadataModule ?? 'openapi-skunkteam-types'}';`,
+    ].join('\n');
+    return [header, ...declarations].join('\n\n');
+}
+
+/**
+ * Returns the `x-skunkteam-type` annotations that refer to the generated module, for all `$ref`s to the given schemas outside of
+ * `components/schemas`. The annotations are inserted after the `$ref`s with `updateValues` of the spec-editor, so the source of the
+ * document is edited in place. The `$ref`s are kept, the forward generator points them to the generated schemas.
+ */
+export function specAnnotations(api: OpenAPIV3.Document | OpenAPIV3_1.Document, moduleSpecifier: string, schemaNames: string[]) {
+    const updates: ValueUpdate[] = [];
+    (function visit(node: unknown, path: Array<string | number>) {
+        if (path.join('/') === 'components/schemas') {
+            // the converted schemas themselves
+            return;
+        }
+        if (Array.isArray(node)) {
+            node.forEach((item, i) => visit(item, [...path, i]));
+        } else if (typeof node === 'object' && !!node) {
+            const ref = (node as Partial<OpenAPIV3.ReferenceObject>).$ref;
+            const name = typeof ref === 'string' && SCHEMA_REF.exec(ref)?.[1];
+            if (name && schemaNames.includes(name)) {
+                updates.push({ path, key: 'x-skunkteam-type', value: `${moduleSpecifier}#${name}`, after: '$ref' });
+            }
+            Object.entries(node).forEach(([key, value]) => visit(value, [...path, key]));
+        }
+    })(api, []);
+    return updates;
+}
+
+/**
+ * Writes the declaration of a single named schema, including the `openApiMetadata` calls for the schema and its properties. Nested schemas
+ * with metadata (e.g. the `format` of the items of an array) are declared as module private types first, so the metadata can be added to
+ * them as well.
+ */
+class DeclarationWriter {
+    private readonly metadata: string[] = [];
+    private readonly propertyMetadata: string[] = [];
+    private readonly nested: string[] = [];
+
+    constructor(
+        private readonly name: string,
+        private readonly schemas: Record<string, Schema>,
+        private readonly imports: Set<string>,
+        private readonly identifiers: Set<string>,
+    ) {}
+
+    write(schema: Schema) {
+        const expression = this.expression(schema, this.name, this.name, this.propertyMetadata);
+        if (!('$ref' in schema)) {
+            this.metadata.push(...metadataEntries(schema, isInteger(schema)));
+        }
+        const lines = [
+            ...this.nested,
+            `export type ${this.name} = The<typeof ${this.name}>;`,
+            `export const ${this.name} = ${expression};`,
+        ];
+        if (this.metadata.length || this.propertyMetadata.length) {
+            lines.push(metadataCall(this.name, this.metadata, this.propertyMetadata));
+        }
+        return lines.join('\n');
+    }
+
+    // returns the TypeScript expression for the given schema, `name` is only given for named (top-level) schemas, the metadata of the
+    // properties of an object schema is added to `propertyMetadata`
+    private expression(schema: Schema, name: string | undefined, path: string, propertyMetadata: string[]): string {
+        if ('$ref' in schema) {
+            const refName = SCHEMA_REF.exec(schema.$ref)?.[1];
+            if (!refName || !(refName in this.schemas)) {
+                throw new ReverseGenerationError(path, `only $refs to components/schemas are supported, got: ${schema.$ref}`);
+            }
+            return refName;
+        }
+        if (schema.nullable) {
+            this.use('literal');
+            // `null` is one of the values of a nullable enum as well
+            const values = schema.enum?.filter(v => v !== null);
+            if (values?.length === 0) return 'literal(null)';
+            this.use('union');
+            // the metadata of the schema belongs to the union
+            const nonNullable = this.nestedExpression(withoutKeys({ ...schema, enum: values }, 'nullable', ...METADATA_KEYS), path);
+            return `union(${nameArg(name)}[${nonNullable}, literal(null)])`;
+        }
+        if (schema.allOf?.length === 1 && schema.allOf[0]) {
+            return this.expression(schema.allOf[0], name, path, propertyMetadata);
+        }
+        if (schema.allOf) {
+            this.use('intersection');
+            const types = schema.allOf.map((subschema, i) => this.nestedExpression(subschema, `${path}.allOf[${i}]`));
+            return `intersection(${nameArg(name)}[${types.join(', ')}])`;
+        }
+        const alternatives = schema.oneOf ?? schema.anyOf;
+        if (alternatives) {
+            this.use('union');
+            const types = alternatives.map((subschema, i) => this.nestedExpression(subschema, `${path}.oneOf[${i}]`));
+            return `union(${nameArg(name)}[${types.join(', ')}])`;
+        }
+        if (schema.enum) {
+            if (schema.enum.length === 1) {
+                this.use('literal');
+                return `literal(${valueSource(schema.enum[0])})`;
+            }
+            if (schema.enum.every(v => typeof v === 'string')) {
+                this.use('keyof');
+                return `keyof(${nameArg(name)}${block(schema.enum.map(v => `${propertyKey(v)}: null,`))})`;
+            }
+            this.use('union', 'literal');
+            return `union(${nameArg(name)}[${schema.enum.map(v => `literal(${valueSource(v)})`).join(', ')}])`;
+        }
+        switch (schema.type) {
+            case 'object':
+            case undefined:
+                if (schema.properties) return this.objectExpression(schema, name, path, propertyMetadata);
+                if (schema.type) {
+                    this.use('unknownRecord');
+                    return 'unknownRecord';
+                }
+                this.use('unknown');
+                return 'unknown';
+            case 'array': {
+                this.use('array');
+                const elementType = this.nestedExpression(schema.items, `${path}[]`);
+                const config = pickBy({ minLength: schema.minItems, maxLength: schema.maxItems }, v => v !== undefined);
+                const args = [elementType, ...(isEmpty(config) ? [] : [valueSource(config)])];
+                return `array(${nameArg(name)}${args.join(', ')})`;
+            }
+            case 'string': {
+                this.use('string');
+                const { minLength, maxLength } = schema;
+                const config = { minLength, maxLength, pattern: schema.pattern && new RegExp(schema.pattern) };
+                return withConfig('string', name ?? path, config, !!name);
+            }
+            case 'integer':
+            case 'number': {
+                const base = schema.type === 'integer' ? 'int' : 'number';
+                this.use(base);
+                const exclusive = (bound: boolean | undefined, value: number | undefined) => (bound ? value : undefined);
+                const inclusive = (bound: boolean | undefined, value: number | undefined) => (bound ? undefined : value);
+                const config = {
+                    min: inclusive(schema.exclusiveMinimum, schema.minimum),
+                    minExclusive: exclusive(schema.exclusiveMinimum, schema.minimum),
+                    max: inclusive(schema.exclusiveMaximum, schema.maximum),
+                    maxExclusive: exclusive(schema.exclusiveMaximum, schema.maximum),
+                    multipleOf: schema.multipleOf,
+                };
+                return withConfig(base, name ?? path, config, !!name);
+            }
+            case 'boolean':
+                this.use('boolean');
+                return 'boolean';
+        }
+    }
+
+    // returns the TypeScript expression for a nested schema, which is declared as a module private type when it has metadata, unless
+    // `withMetadata` is false because the caller adds the metadata of the schema itself (i.e. as the metadata of a property)
+    private nestedExpression(schema: Schema, path: string, withMetadata = true) {
+        const metadata = withMetadata && !('$ref' in schema) ? metadataEntries(schema, isInteger(schema)) : [];
+        const propertyMetadata: string[] = [];
+        const expression = this.expression(schema, undefined, path, propertyMetadata);
+        if (!metadata.length && !propertyMetadata.length) return expression;
+        const identifier = this.identifier(path);
+        let type = expression;
+        if (/^\w+$/.test(expression)) {
+            // `openApiMetadata` would change the shared base type, so the metadata is added to a new type, which is named after its path
+            // (e.g. `Pet.photoUrls[]`), such names are not valid schema names, so the new type is inlined again
+            if (!['string', 'number', 'int'].includes(expression)) {
+                throw new ReverseGenerationError(path, `metadata (${METADATA_KEYS.join(', ')}) of a nested ${expression} is not supported`);
+            }
+            type = `${expression}.withConfig(${valueSource(path)}, {})`;
+        }
+        this.nested.push(`const ${identifier} = ${type};`, metadataCall(identifier, metadata, propertyMetadata));
+        return identifier;
+    }
+
+    private objectExpression(schema: OpenAPIV3.NonArraySchemaObject, name: string | undefined, path: string, propertyMetadata: string[]) {
+        const properties = Object.entries(schema.properties ?? {});
+        const required = properties.filter(([prop]) => schema.required?.includes(prop));
+        const optional = properties.filter(([prop]) => !schema.required?.includes(prop));
+        const props = (entries: typeof properties) =>
+            block(
+                entries.map(([prop, propSchema]) => {
+                    if (!('$ref' in propSchema)) {
+                        const entries = metadataEntries(propSchema, isInteger(propSchema));
+                        if (entries.length) propertyMetadata.push(`${propertyKey(prop)}: ${block(entries)},`);
+                    }
+                    return `${propertyKey(prop)}: ${this.nestedExpression(propSchema, `${path}.${prop}`, false)},`;
+                }),
+            );
+        if (!required.length) {
+            this.use('partial');
+            return `partial(${nameArg(name)}${props(optional)})`;
+        }
+        this.use('object');
+        const result = `object(${nameArg(name)}${props(required)})`;
+        return optional.length ? `${result}.withOptional(${props(optional)})` : result;
+    }
+
+    // a unique identifier for the module private type of a nested schema, e.g. `Pet_photoUrls_items` for `Pet.photoUrls[]`
+    private identifier(path: string) {
+        const base = path
+            .replace(/\[\]/g, '.items')
+            .replace(/\W+/g, '_')
+            .replace(/^_+|_+$/g, '');
+        let identifier = base;
+        for (let i = 2; this.identifiers.has(identifier); i++) identifier = `${base}_${i}`;
+        this.identifiers.add(identifier);
+        return identifier;
+    }
+
+    private use(...names: string[]) {
+        names.forEach(name => this.imports.add(name));
+    }
+}
+
+// the `openApiMetadata` call that adds the metadata to the type in the given variable
+function metadataCall(variable: string, metadata: string[], propertyMetadata: string[]) {
+    const args = [variable, block(metadata, '{}')];
+    if (propertyMetadata.length) args.push(block(propertyMetadata));
+    return `openApiMetadata(\n${args.map(arg => INDENT + indent(arg) + ',').join('\n')}\n);`;
+}
+
+// returns the `name: value` entries for the metadata of the schema that is supported by `openApiMetadata`
+function metadataEntries(schema: OpenAPIV3.SchemaObject, isInteger: boolean) {
+    const { description, deprecated, format, xml, example } = schema;
+    const metadata = pickBy({ description, deprecated, format, xml }, v => v !== undefined);
+    const entries = Object.entries(metadata).map(([key, value]) => `${key}: ${valueSource(value)},`);
+    if (example !== undefined) {
+        // examples are type-checked against the type, so use the constructor of branded types and convert numbers in string properties
+        const value = schema.type === 'string' && typeof example === 'number' ? String(example) : example;
+        entries.push(`example: ${isInteger ? `int(${valueSource(value)})` : valueSource(value)},`);
+    }
+    return entries;
+}
+
+function isInteger(schema: OpenAPIV3.SchemaObject) {
+    return schema.type === 'integer';
+}
+
+function withConfig(base: string, name: string, config: Record<string, unknown>, named: boolean) {
+    const definedConfig = pickBy(config, v => v !== undefined);
+    if (isEmpty(definedConfig) && !named) return base;
+    // nested types are named after their path (e.g. `Pet.name`), such names are not valid schema names, so they are inlined again
+    return `${base}.withConfig(${valueSource(name)}, ${valueSource(definedConfig)})`;
+}
+
+function nameArg(name: string | undefined) {
+    return name ? `${valueSource(name)}, ` : '';
+}
+
+function withoutKeys<T extends object>(obj: T, ...keys: Array<keyof T>): T {
+    const result = { ...obj };
+    keys.forEach(key => delete result[key]);
+    return result;
+}
+
+/** Returns the names of the schemas, ordered so every schema is declared after the schemas it references */
+function sortByDependencies(schemas: Record<string, Schema>) {
+    const sorted: string[] = [];
+    const visiting = new Set<string>();
+    const visit = (name: string) => {
+        if (sorted.includes(name)) return;
+        if (visiting.has(name)) {
+            // skunkteam types are declared as constants, which cannot refer to themselves
+            const cycle = [...visiting].slice([...visiting].indexOf(name));
+            throw new ReverseGenerationError(name, `recursive schemas are not supported (${[...cycle, name].join(' -> ')})`);
+        }
+        visiting.add(name);
+        // $refs to schemas that do not exist are reported by the `DeclarationWriter`
+        referencedSchemas(schemas[name])
+            .filter(ref => ref in schemas)
+            .forEach(visit);
+        visiting.delete(name);
+        sorted.push(name);
+    };
+    Object.keys(schemas).forEach(visit);
+    return sorted;
+}
+
+function referencedSchemas(node: unknown): string[] {
+    if (Array.isArray(node)) return uniq(node.flatMap(referencedSchemas));
+    if (typeof node !== 'object' || !node) return [];
+    const ref = (node as Partial<OpenAPIV3.ReferenceObject>).$ref;
+    const name = typeof ref === 'string' ? SCHEMA_REF.exec(ref)?.[1] : undefined;
+    return uniq([...(name ? [name] : []), ...Object.values(node).flatMap(referencedSchemas)]);
+}
+
+function block(lines: string[], empty = '{}') {
+    return lines.length ? `{\n${lines.map(line => INDENT + indent(line)).join('\n')}\n}` : empty;
+}
+
+function indent(source: string) {
+    return source.replace(/\n/g, `\n${INDENT}`);
+}
+
+function propertyKey(key: string) {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? key : valueSource(key);
+}
+
+// returns the TypeScript source of a plain (JSON) value, using the code style of this repository
+function valueSource(value: unknown): string {
+    if (typeof value === 'string') {
+        return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+    }
+    if (value instanceof RegExp) {
+        return value.toString();
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(valueSource).join(', ')}]`;
+    }
+    if (typeof value === 'object' && value) {
+        const entries = Object.entries(value).map(([key, v]) => `${propertyKey(key)}: ${valueSource(v)}`);
+        return entries.length ? `{ ${entries.join(', ')} }` : '{}';
+    }
+    return String(value);
+}
+
+function byName(a: string, b: string) {
+    return a.localeCompare(b, 'en', { sensitivity: 'base' });
+}
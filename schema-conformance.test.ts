@@ -0,0 +1,12 @@
+import { isType } from '@skunkteam/types';
+import assert from 'assert';
+import { pickBy } from 'lodash';
+import { test } from 'node:test';
+import { TypeDefs } from './openapi-definitions-generator';
+import { checkConformance, formatConformanceIssues } from './schema-conformance';
+import * as lib from './types';
+
+test('the schemas of the example types accept the same samples as the types', () => {
+    const issues = checkConformance(pickBy(lib, isType) as TypeDefs);
+    assert.strictEqual(issues.length, 0, formatConformanceIssues(issues));
+});
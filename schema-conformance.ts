@@ -0,0 +1,331 @@
+import {
+    ArrayType,
+    BaseObjectLikeTypeImpl,
+    BaseTypeImpl,
+    KeyofType,
+    LiteralType,
+    LiteralValue,
+    NumberTypeConfig,
+    OneOrMore,
+    RecordType,
+    StringTypeConfig,
+    UnionType,
+    Visitor,
+} from '@skunkteam/types';
+import Ajv2020, { ValidateFunction } from 'ajv/dist/2020';
+import AjvDraft04 from 'ajv-draft-04';
+import { get, isEqual, mapValues, omit, uniqWith } from 'lodash';
+import { DOC_METADATA, exampleValues, OPENAPI_METADATA } from './metadata';
+import { GeneratorOptions, generateSchemas, SchemaGenerationError, TypeDefs } from './openapi-definitions-generator';
+import { isSchema, JsonSchema, mapSubschemas, OpenApiVersion } from './schema-versions';
+
+export type ConformanceOptions = Omit<GeneratorOptions, 'openapiVersion'> & {
+    /** the maximum number of samples per type, defaults to 50 */
+    maxSamples?: number;
+};
+
+/** A sample value that is accepted by the skunkteam type and rejected by its generated schema, or the other way around */
+export type ConformanceIssue = {
+    /** the OpenAPI version of the schema */
+    openapiVersion: OpenApiVersion;
+    /** the names of the types, from the top-level type down to the type of the value that makes the difference */
+    typePath: string[];
+    /** the location of that value inside the sample, for example `.address.zip` or `[0]` */
+    path: string;
+    sample: unknown;
+    description: string;
+};
+
+type Sample = { value: unknown; path: string; typePath: string[] };
+// the samples of a type, partitioned by the type itself
+type Samples = { valid: Sample[]; invalid: Sample[] };
+
+// additional openapi metadata might have been attached to any skunkteam/type, explicitly or extracted from its doc comments
+type AnnotatedType = {
+    [OPENAPI_METADATA]?: { metadata?: Record<string, unknown> };
+    [DOC_METADATA]?: { metadata?: Record<string, unknown> };
+};
+
+/**
+ * Checks that the generated schemas accept the same values as the skunkteam types they are generated from. Valid values and near misses
+ * (e.g. a number just outside its bounds, or an object with an invalid property) are generated for every type, and every sample that the
+ * type (`is`/`check`) and its schema disagree about is reported. The schemas are validated in both their OpenAPI 3.0 form (JSON Schema
+ * draft 4, with `nullable`) and their OpenAPI 3.1 form (JSON Schema 2020-12). Formats are not validated, and custom types only get samples
+ * that they accept, because their validation can not be expressed in a schema.
+ */
+export function checkConformance(types: TypeDefs, options: ConformanceOptions = {}): ConformanceIssue[] {
+    // the samples are shared by both versions
+    const generator = new SampleGenerator(options.maxSamples ?? 50);
+    return (['3.0', '3.1'] as const).flatMap(openapiVersion => checkVersion(types, options, openapiVersion, generator));
+}
+
+function checkVersion(
+    types: TypeDefs,
+    options: ConformanceOptions,
+    openapiVersion: OpenApiVersion,
+    generator: SampleGenerator,
+): ConformanceIssue[] {
+    let document: { components: { schemas: Record<string, JsonSchema> } };
+    try {
+        document = generateSchemas('components/schemas', types, { ...options, openapiVersion }) as typeof document;
+    } catch (e) {
+        if (!(e instanceof SchemaGenerationError)) throw e;
+        const description = `schema could not be generated: ${message(e.cause)}`;
+        return [{ openapiVersion, typePath: e.typePath, path: '', sample: undefined, description }];
+    }
+    // the patterns come from regular expressions without flags, so they should not be interpreted as unicode patterns either
+    const ajvOptions = { strict: false, allErrors: true, validateFormats: false, unicodeRegExp: false };
+    const ajv = openapiVersion === '3.1' ? new Ajv2020(ajvOptions) : new AjvDraft04(ajvOptions);
+    if (openapiVersion === '3.0') {
+        document = { ...document, components: { ...document.components, schemas: mapValues(document.components.schemas, jsonSchema30) } };
+    }
+    ajv.addSchema(document, 'openapi');
+
+    const issues: ConformanceIssue[] = [];
+    for (const [name, type] of Object.entries(types)) {
+        if (!type) continue;
+        let validate: ValidateFunction;
+        try {
+            validate = ajv.compile({ $ref: `openapi#/components/schemas/${name}` });
+        } catch (e) {
+            const description = `schema could not be compiled: ${message(e)}`;
+            issues.push({ openapiVersion, typePath: [type.name], path: '', sample: undefined, description });
+            continue;
+        }
+        const { valid, invalid } = generator.samples(type as BaseTypeImpl<unknown>);
+        for (const { value, path, typePath } of valid) {
+            if (!validate(value)) {
+                const errors = ajv.errorsText(validate.errors, { dataVar: '' });
+                const description = `schema rejects a value that the type accepts: ${errors}`;
+                issues.push({ openapiVersion, typePath, path, sample: value, description });
+            }
+        }
+        for (const { value, path, typePath } of invalid) {
+            if (validate(value)) {
+                const description = `schema accepts a value that the type rejects: ${typeError(type as BaseTypeImpl<unknown>, value)}`;
+                issues.push({ openapiVersion, typePath, path, sample: value, description });
+            }
+        }
+    }
+    return issues;
+}
+
+/** Formats the issues as a human readable report, one line per issue */
+export function formatConformanceIssues(issues: ConformanceIssue[]) {
+    return issues
+        .map(({ openapiVersion, typePath, path, sample, description }) => {
+            const value = path ? `${print(get(sample, path.replace(/^\./, '')))} at ${path} of ${print(sample)}` : print(sample);
+            return `  ${typePath.join(' / ')} (OpenAPI ${openapiVersion}): ${value}\n    ${description}`;
+        })
+        .join('\n');
+}
+
+/**
+   Implementation of the "visitor pattern" to generate sample values for skunkteam/types, the samples are partitioned by the type itself
+*/
+class SampleGenerator implements Visitor<Sample[]> {
+    private readonly cache = new Map<BaseTypeImpl<unknown>, Samples>();
+    private readonly typeStack: BaseTypeImpl<unknown>[] = [];
+
+    constructor(private readonly maxSamples: number) {}
+
+    visitArrayType(type: ArrayType<BaseTypeImpl<unknown>, unknown, unknown[]>): Sample[] {
+        const { minLength = 0, maxLength } = type.typeConfig;
+        const element = this.samples(type.elementType);
+        const items = (length: number) => Array.from({ length }, (_, i) => element.valid[i % element.valid.length]?.value);
+        const lengths = [minLength - 1, minLength, minLength + 1, ...(maxLength === undefined ? [] : [maxLength, maxLength + 1])];
+        return [
+            ...lengths.filter(length => length >= 0 && (length === 0 || element.valid.length)).map(length => sample(items(length))),
+            ...[...element.valid, ...element.invalid].map(item => nested([item.value, ...items(minLength).slice(1)], '[0]', item)),
+            sample({}),
+        ];
+    }
+
+    visitBooleanType(): Sample[] {
+        return [true, false, 'true', 0].map(sample);
+    }
+
+    visitObjectLikeType(type: BaseObjectLikeTypeImpl<unknown, unknown>): Sample[] {
+        const props = Object.entries(type.props).map(([name, propType]) => ({
+            name,
+            required: type.propsInfo[name]?.partial === false,
+            samples: this.samples(propType as BaseTypeImpl<unknown>),
+        }));
+        // every property with its first valid value, and only the required properties
+        const complete: Record<string, unknown> = {};
+        for (const { name, samples } of props) {
+            if (samples.valid[0]) complete[name] = samples.valid[0].value;
+        }
+        const minimal = Object.fromEntries(props.filter(({ required }) => required).map(({ name }) => [name, complete[name]]));
+        const result = [sample(complete), sample(minimal), sample('object'), sample(null)];
+        for (const { name, required, samples } of props) {
+            if (required) result.push(sample(omit(complete, name)));
+            // the other values of the property, one property at a time
+            for (const prop of [...samples.valid.slice(1), ...samples.invalid]) {
+                result.push(nested({ ...complete, [name]: prop.value }, `.${name}`, prop));
+            }
+        }
+        return result;
+    }
+
+    visitKeyofType(type: KeyofType<Record<any, any>, any>): Sample[] {
+        const keys = Object.keys(type.keys);
+        return [...keys, `${keys[0] ?? ''}x`, 1].map(sample);
+    }
+
+    visitLiteralType(type: LiteralType<LiteralValue>): Sample[] {
+        const { value } = type;
+        // the same value as a string, or a string that is almost the same
+        return [value, typeof value === 'string' ? `${value}x` : String(value)].map(sample);
+    }
+
+    visitNumberType(type: BaseTypeImpl<number, NumberTypeConfig>): Sample[] {
+        const { max, maxExclusive, min, minExclusive, multipleOf } = type.typeConfig;
+        const step = multipleOf ?? 1;
+        const bounds = [min, minExclusive, max, maxExclusive].filter((bound): bound is number => bound != null);
+        const values = [
+            0,
+            step,
+            -step,
+            step / 2,
+            1.5 * step,
+            ...bounds.flatMap(bound => [bound - step, bound, bound + step, bound + step / 2]),
+        ];
+        return [...values, '1'].map(sample);
+    }
+
+    visitRecordType(
+        type: RecordType<
+            BaseTypeImpl<string | number, unknown>,
+            string | number,
+            BaseTypeImpl<unknown>,
+            unknown,
+            Record<string | number, unknown>
+        >,
+    ): Sample[] {
+        // keys of objects are always strings in JSON
+        const keys = this.samples(type.keyType);
+        const values = this.samples(type.valueType);
+        const validKeys = keys.valid.map(key => String(key.value));
+        const value = values.valid[0]?.value;
+        const result = [sample({}), sample('object')];
+        if (values.valid.length) {
+            // all valid keys (which are all keys of a record with a fixed set of keys), without one of them or with an invalid key
+            const complete = Object.fromEntries(validKeys.map(key => [key, value]));
+            result.push(sample(complete));
+            result.push(...validKeys.map(key => sample(omit(complete, key))));
+            for (const key of keys.invalid) {
+                if (typeof key.value === 'string' || typeof key.value === 'number') {
+                    result.push(nested({ ...complete, [key.value]: value }, `[${JSON.stringify(String(key.value))}]`, key));
+                }
+            }
+        }
+        const [key] = validKeys;
+        if (key !== undefined) {
+            for (const item of [...values.valid.slice(1), ...values.invalid]) {
+                result.push(nested({ [key]: item.value }, `[${JSON.stringify(key)}]`, item));
+            }
+        }
+        return result;
+    }
+
+    visitStringType(type: BaseTypeImpl<string, StringTypeConfig>): Sample[] {
+        const { maxLength, minLength } = type.typeConfig;
+        const lengths = [minLength, maxLength].filter((length): length is number => length != null);
+        const values = [
+            ...['', 'a', 'A', 'abc', 'a1', '1', '-', 'a b', 'A\nB', '2020-01-01', 'john@email.com'],
+            ...lengths.flatMap(length => [length - 1, length, length + 1].filter(n => n >= 0).map(n => 'a'.repeat(n))),
+        ];
+        return [...values, 1].map(sample);
+    }
+
+    visitUnionType(type: UnionType<OneOrMore<BaseTypeImpl<unknown>>, unknown>): Sample[] {
+        return type.types.flatMap((member: BaseTypeImpl<unknown>) => {
+            const { valid, invalid } = this.samples(member);
+            return [...valid, ...invalid];
+        });
+    }
+
+    visitUnknownType(): Sample[] {
+        return [null, 'a', 1, true, {}, []].map(sample);
+    }
+
+    visitUnknownRecordType(): Sample[] {
+        return [{}, { a: 1 }, [], 'a', null].map(sample);
+    }
+
+    visitUnknownArrayType(): Sample[] {
+        return [[], [1, 'a'], {}, 'a'].map(sample);
+    }
+
+    visitCustomType(type: BaseTypeImpl<unknown>): Sample[] {
+        // the validation of a custom type can not be expressed in a schema, so only the values that it accepts are useful
+        const values = [null, '', 'a', '2020-01-01', '2020-01-01T00:00:00Z', 'john@email.com', 0, 1, 1.5, true, {}, []];
+        return values.filter(value => type.is(value)).map(sample);
+    }
+
+    // the (cached) samples of the type, together with its examples; a recursive type has no samples inside itself
+    samples(type: BaseTypeImpl<unknown>): Samples {
+        let result = this.cache.get(type);
+        if (result) return result;
+        if (this.typeStack.includes(type)) return { valid: [], invalid: [] };
+        this.typeStack.push(type);
+        let candidates: Sample[];
+        try {
+            candidates = [...examples(type as BaseTypeImpl<unknown> & AnnotatedType).map(sample), ...type.accept(this)];
+        } finally {
+            this.typeStack.pop();
+        }
+        const samples = uniqWith(candidates, (a, b) => isEqual(a.value, b.value))
+            .slice(0, this.maxSamples)
+            .map(candidate => ({ ...candidate, typePath: [type.name, ...candidate.typePath] }));
+        result = { valid: samples.filter(({ value }) => type.is(value)), invalid: samples.filter(({ value }) => !type.is(value)) };
+        this.cache.set(type, result);
+        return result;
+    }
+}
+
+function sample(value: unknown): Sample {
+    return { value, path: '', typePath: [] };
+}
+
+// a sample of a composite type that differs from the others at the given location
+function nested(value: unknown, location: string, inner: Sample): Sample {
+    return { value, path: location + inner.path, typePath: inner.typePath };
+}
+
+function examples(type: BaseTypeImpl<unknown> & AnnotatedType) {
+    return [type[OPENAPI_METADATA]?.metadata, type[DOC_METADATA]?.metadata].flatMap(metadata => [
+        ...(metadata?.['example'] === undefined ? [] : [metadata['example']]),
+        ...(metadata?.['examples'] ? exampleValues(metadata['examples']) : []),
+    ]);
+}
+
+// OpenAPI 3.0 adds `nullable` to JSON Schema draft 4, which allows `null` in addition to the values of the schema, and the key constraints
+// of records are documented with `x-propertyNames`
+function jsonSchema30(schema: JsonSchema): JsonSchema {
+    if ('$ref' in schema) return schema;
+    const { nullable, 'x-propertyNames': propertyNames, ...result } = mapSubschemas(schema, jsonSchema30);
+    if (isSchema(propertyNames)) {
+        result['propertyNames'] = jsonSchema30(propertyNames);
+    }
+    return nullable ? { anyOf: [result, { type: 'null' }] } : result;
+}
+
+function typeError(type: BaseTypeImpl<unknown>, value: unknown) {
+    try {
+        type.check(value);
+        return 'unknown error';
+    } catch (e) {
+        // only the first line of the message of a ValidationError
+        return message(e).split('\n')[0];
+    }
+}
+
+function message(e: unknown) {
+    return e instanceof Error ? e.message : String(e);
+}
+
+function print(value: unknown) {
+    return value === undefined ? 'undefined' : JSON.stringify(value);
+}
@@ -0,0 +1,186 @@
+import { castArray, mapValues, uniq } from 'lodash';
+import type { OpenAPI, OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+
+/** The OpenAPI versions that schemas can be generated for */
+export type OpenApiVersion = '3.0' | '3.1';
+
+export type SchemaObject = OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
+
+/** A loosely typed schema, used while converting between the schema dialects of the different OpenAPI versions */
+export type JsonSchema = Record<string, unknown>;
+
+/** Returns the supported OpenAPI version of the given document, or `undefined` if the document is not supported */
+export function openApiVersion(doc: OpenAPI.Document): OpenApiVersion | undefined {
+    if (!('openapi' in doc)) return;
+    if (doc.openapi === '3.0' || doc.openapi.startsWith('3.0.')) return '3.0';
+    if (doc.openapi === '3.1' || doc.openapi.startsWith('3.1.')) return '3.1';
+    return;
+}
+
+/**
+ * Converts a schema as generated by the `OpenApiDefinitionsGenerator` (which uses the OpenAPI 3.0 dialect, extended with `examples`)
+ * to the dialect of the given OpenAPI version.
+ */
+export function convertSchema(schema: OpenAPIV3.SchemaObject, version: OpenApiVersion): SchemaObject {
+    const converted = version === '3.1' ? toOpenApi31(schema as JsonSchema) : toOpenApi30(schema as JsonSchema);
+    return converted as SchemaObject;
+}
+
+// OpenAPI 3.0 has no `examples` in a schema, only a single `example`
+function toOpenApi30(schema: JsonSchema): JsonSchema {
+    if ('$ref' in schema) return schema;
+    const { examples, ...result } = mapSubschemas(schema, toOpenApi30);
+    if (Array.isArray(examples) && examples.length && result['example'] === undefined) {
+        result['example'] = examples[0];
+    }
+    return result;
+}
+
+// OpenAPI 3.1 is a superset of JSON Schema 2020-12, see https://www.openapis.org/blog/2021/02/16/migrating-from-openapi-3-0-to-3-1-0
+function toOpenApi31(schema: JsonSchema): JsonSchema {
+    if ('$ref' in schema) return schema;
+    const {
+        nullable,
+        example,
+        exclusiveMinimum,
+        exclusiveMaximum,
+        'x-propertyNames': propertyNames,
+        ...result
+    } = mapSubschemas(schema, toOpenApi31);
+    // exclusive bounds are numbers instead of a boolean modifier of `minimum` and `maximum`
+    if (exclusiveMinimum === true) {
+        result['exclusiveMinimum'] = result['minimum'];
+        delete result['minimum'];
+    }
+    if (exclusiveMaximum === true) {
+        result['exclusiveMaximum'] = result['maximum'];
+        delete result['maximum'];
+    }
+    if (example !== undefined && !result['examples']) {
+        result['examples'] = [example];
+    }
+    if (isSchema(propertyNames)) {
+        result['propertyNames'] = toOpenApi31(propertyNames);
+    }
+    if (nullable) {
+        addNull(result);
+    }
+    if (Array.isArray(result['enum']) && result['enum'].length === 1) {
+        result['const'] = result['enum'][0];
+        delete result['enum'];
+    }
+    return result;
+}
+
+/**
+ * Converts an OpenAPI 3.1 schema to the OpenAPI 3.0 dialect, as far as OpenAPI 3.0 can express it. This is the reverse of `convertSchema`,
+ * used to read the schemas of existing OpenAPI 3.1 documents.
+ */
+export function fromOpenApi31(
+    schema: OpenAPIV3_1.SchemaObject | OpenAPIV3_1.ReferenceObject,
+): OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject {
+    return toOpenApi30Dialect(schema as JsonSchema) as OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+}
+
+function toOpenApi30Dialect(schema: JsonSchema): JsonSchema {
+    // the siblings of a `$ref` are ignored in OpenAPI 3.0
+    if ('$ref' in schema) return { $ref: schema['$ref'] };
+    const {
+        type,
+        const: constValue,
+        examples,
+        exclusiveMinimum,
+        exclusiveMaximum,
+        propertyNames,
+        ...result
+    } = mapSubschemas(schema, toOpenApi30Dialect);
+    if (typeof exclusiveMinimum === 'number') {
+        result['minimum'] = exclusiveMinimum;
+        result['exclusiveMinimum'] = true;
+    }
+    if (typeof exclusiveMaximum === 'number') {
+        result['maximum'] = exclusiveMaximum;
+        result['exclusiveMaximum'] = true;
+    }
+    if (Array.isArray(examples) && examples.length && result['example'] === undefined) {
+        result['example'] = examples[0];
+    }
+    if (isSchema(propertyNames)) {
+        result['x-propertyNames'] = toOpenApi30Dialect(propertyNames);
+    }
+    if (constValue !== undefined) {
+        result['enum'] = [constValue];
+    }
+    const types = castArray(type ?? []).filter(t => t !== 'null') as unknown[];
+    if (types.length === 1) {
+        result['type'] = types[0];
+    } else if (types.length > 1) {
+        result['anyOf'] = types.map(t => ({ type: t }));
+    }
+    // `null` is no type of its own in OpenAPI 3.0, but a modifier of the other types
+    if (castArray(type).includes('null') || (Array.isArray(result['enum']) && result['enum'].includes(null))) {
+        result['nullable'] = true;
+        if (!types.length && !result['enum']) result['enum'] = [null];
+    }
+    for (const key of ['anyOf', 'oneOf']) {
+        const members = result[key];
+        if (!Array.isArray(members) || !members.some(isNullSchema)) continue;
+        result['nullable'] = true;
+        const nonNull = members.filter(member => !isNullSchema(member));
+        delete result[key];
+        if (nonNull.length === 1) {
+            // the nullable wrapper around a single schema
+            result['allOf'] = nonNull;
+        } else {
+            result[key] = nonNull;
+        }
+    }
+    return result;
+}
+
+function isNullSchema(schema: unknown) {
+    return isSchema(schema) && (schema['type'] === 'null' || (Array.isArray(schema['enum']) && schema['enum'].every(v => v === null)));
+}
+
+// `null` is a type of its own in OpenAPI 3.1
+function addNull(schema: JsonSchema) {
+    const { type, enum: enumValues, allOf, oneOf } = schema;
+    if (Array.isArray(enumValues) && enumValues.every(v => v === null) && !type) {
+        // the `null` literal
+        schema['type'] = 'null';
+        delete schema['enum'];
+        return;
+    }
+    if (Array.isArray(enumValues)) {
+        schema['enum'] = uniq([...enumValues, null]);
+    }
+    if (type) {
+        schema['type'] = uniq([...castArray(type), 'null']);
+    } else if (Array.isArray(allOf) && allOf.length === 1) {
+        // nullable wrapper around a $ref, which is no longer needed now that we can just add `null` as an alternative
+        delete schema['allOf'];
+        schema['anyOf'] = [allOf[0], { type: 'null' }];
+    } else if (Array.isArray(oneOf)) {
+        schema['oneOf'] = [...oneOf, { type: 'null' }];
+    }
+}
+
+/** Returns a copy of the schema with its direct subschemas (properties, items, compositions etc.) replaced by the result of `fn` */
+export function mapSubschemas(schema: JsonSchema, fn: (schema: JsonSchema) => JsonSchema): JsonSchema {
+    const result = { ...schema };
+    const map = (value: unknown) => (isSchema(value) ? fn(value) : value);
+    if (isSchema(result['properties'])) result['properties'] = mapValues(result['properties'], map);
+    for (const key of ['items', 'additionalProperties', 'not']) {
+        if (isSchema(result[key])) result[key] = map(result[key]);
+    }
+    for (const key of ['allOf', 'oneOf', 'anyOf']) {
+        const members = result[key];
+        if (Array.isArray(members)) result[key] = members.map(map);
+    }
+    return result;
+}
+
+/** Whether the value is a (sub)schema object, as opposed to e.g. the boolean `additionalProperties` */
+export function isSchema(value: unknown): value is JsonSchema {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,43 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import path from 'path';
+import { bundleSpec } from './spec-bundler';
+
+test('the example specs are bundled into a single spec without external references', async () => {
+    const { bundle, errors } = await bundleSpec(path.join(__dirname, 'openapi.yml'), 'bundle.yml');
+    assert.deepStrictEqual(errors, []);
+    assert.ok(bundle);
+    const { paths, components } = bundle.contents;
+    // the referenced path item of the other spec file is inlined
+    assert.ok(paths?.['/user']?.post);
+    assert.ok(!('$ref' in (paths?.['/user'] ?? {})));
+    // the generated schemas of both spec files are registered as components (`int` is generated for both) and referenced internally
+    assert.deepStrictEqual(Object.keys(components?.schemas ?? {}).sort(), ['Category', 'Pet', 'Tag', 'User', 'int']);
+    assert.deepStrictEqual(refs(bundle.contents), [
+        '#/components/schemas/Category',
+        '#/components/schemas/Pet',
+        '#/components/schemas/Tag',
+        '#/components/schemas/User',
+        '#/components/schemas/int',
+    ]);
+    // the annotations are kept, unless they should be stripped
+    assert.ok(bundle.text.includes('x-skunkteam-type: ./types.ts#Pet'));
+    const stripped = await bundleSpec(path.join(__dirname, 'openapi.yml'), 'bundle.json', { stripAnnotations: true });
+    assert.deepStrictEqual(stripped.errors, []);
+    assert.ok(!stripped.bundle?.text.includes('x-skunkteam-'));
+    assert.deepStrictEqual(JSON.parse(stripped.bundle?.text ?? ''), JSON.parse(JSON.stringify(stripped.bundle?.contents)));
+});
+
+// the distinct `$ref`s inside the given value
+function refs(value: unknown): string[] {
+    const result = new Set<string>();
+    const collect = (item: unknown) => {
+        if (typeof item !== 'object' || item === null) return;
+        for (const [key, nested] of Object.entries(item)) {
+            if (key === '$ref' && typeof nested === 'string') result.add(nested);
+            collect(nested);
+        }
+    };
+    collect(value);
+    return [...result].sort();
+}
@@ -0,0 +1,201 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import { promises } from 'fs';
+import { dump, load } from 'js-yaml';
+import { cloneDeep, isEqual } from 'lodash';
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import path from 'path';
+import { generateFromSpec, SpecFileError, SpecGenerationError, SpecGeneratorOptions, WritableFile } from './spec-generator';
+
+export type BundleOptions = Omit<SpecGeneratorOptions, 'only'> & {
+    /** remove the `x-skunkteam-*` extensions (annotations and markers of generated parameters) from the bundled spec */
+    stripAnnotations?: boolean;
+};
+
+export type BundleResult = {
+    /** the bundled spec that should be written, `undefined` when there were errors */
+    bundle?: WritableFile;
+    errors: SpecGenerationError[];
+};
+
+type Components = Record<string, Record<string, unknown>>;
+
+/**
+ * Bundles the given spec file and all spec files it (indirectly) references into a single spec without external `$ref`s, for tools that
+ * can not follow them. The schemas are generated first (without writing anything to disk), so the bundle always contains the current
+ * schemas. Referenced components (e.g. the generated schemas) are added to the `components` of the bundle, all other referenced values are
+ * inlined. The bundle is validated and serialized as json or yaml, depending on the extension of the output file.
+ */
+export async function bundleSpec(entry: string, outputFile: string, options: BundleOptions = {}): Promise<BundleResult> {
+    const { files, errors } = await generateFromSpec(entry, options);
+    if (errors.length) {
+        return { errors };
+    }
+    // the generated files take precedence over the files on disk, which are not written
+    const documents = new Map<string, unknown>(files.map(({ file, contents }) => [file, contents]));
+    let contents: WritableFile['contents'];
+    try {
+        contents = await new SpecBundler(path.resolve(entry), documents, options).bundle();
+    } catch (e) {
+        return { errors: [e instanceof SpecFileError ? e : new SpecFileError(entry, e)] };
+    }
+    try {
+        // validation dereferences the document it is given
+        await SwaggerParser.validate(cloneDeep(contents));
+    } catch (e) {
+        return { errors: [new SpecFileError(outputFile, e)] };
+    }
+    const { lineWidth = 140, indent = 2 } = options;
+    const text = /\.json$/.test(outputFile)
+        ? JSON.stringify(contents, undefined, indent) + '\n'
+        : dump(contents, { noRefs: true, lineWidth });
+    return { bundle: { file: outputFile, contents, text }, errors: [] };
+}
+
+/** Copies the entry spec while it replaces every `$ref` to another file with an internal `$ref` or the value it refers to */
+class SpecBundler {
+    // the components that are added to the bundle, by kind (e.g. `schemas`) and name
+    private readonly components: Components = {};
+    // the source (`<file>#<pointer>`) of every component of the bundle, by `<kind>/<name>`
+    private readonly sources = new Map<string, string>();
+    // the internal `$ref` of every component that has been added to the bundle, by source
+    private readonly refs = new Map<string, string>();
+    // the sources of the values that are being inlined, to detect circular references
+    private readonly inlining: string[] = [];
+
+    constructor(
+        private readonly entry: string,
+        private readonly documents: Map<string, unknown>,
+        private readonly options: BundleOptions,
+    ) {}
+
+    async bundle() {
+        const document = await this.load(this.entry);
+        const ownComponents = components(document);
+        // the components of the entry spec keep their names
+        for (const [kind, named] of Object.entries(ownComponents)) {
+            for (const name of Object.keys(named)) {
+                const source = `${this.entry}#/components/${kind}/${name}`;
+                this.sources.set(`${kind}/${name}`, source);
+                this.refs.set(source, `#/components/${kind}/${name}`);
+            }
+        }
+        const result = (await this.copy(document, this.entry)) as WritableFile['contents'];
+        const merged = components(result);
+        for (const [kind, named] of Object.entries(this.components)) {
+            merged[kind] = { ...merged[kind], ...named };
+        }
+        if (Object.keys(merged).length) {
+            result.components = merged as OpenAPIV3.ComponentsObject & OpenAPIV3_1.ComponentsObject;
+        }
+        return result;
+    }
+
+    // copies a value of the given file, with all `$ref`s replaced
+    private async copy(value: unknown, file: string): Promise<unknown> {
+        if (Array.isArray(value)) {
+            const result: unknown[] = [];
+            for (const item of value) {
+                result.push(await this.copy(item, file));
+            }
+            return result;
+        }
+        if (!isObject(value)) {
+            return value;
+        }
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            if (key === '$ref' || (this.options.stripAnnotations && key.startsWith('x-skunkteam-'))) continue;
+            result[key] = await this.copy(item, file);
+        }
+        const ref = value['$ref'];
+        return typeof ref === 'string' ? this.replaceRef(ref, file, result) : result;
+    }
+
+    // an internal `$ref` for a component, or the inlined value for anything else
+    private async replaceRef(ref: string, file: string, siblings: Record<string, unknown>): Promise<unknown> {
+        if (/^[a-z][a-z\d+.-]*:/i.test(ref)) {
+            return { ...siblings, $ref: ref }; // a url, cannot be bundled
+        }
+        const [refFile, fragment = ''] = ref.split('#');
+        const target = refFile ? path.resolve(path.dirname(file), refFile) : file;
+        const pointer = parsePointer(fragment);
+        const source = `${target}#${fragment}`;
+        const [components, kind, name] = pointer;
+        if (components === 'components' && kind && name && pointer.length === 3) {
+            return { ...siblings, $ref: await this.addComponent(target, kind, name) };
+        }
+        if (target === this.entry) {
+            return { ...siblings, $ref: `#${fragment}` };
+        }
+        if (this.inlining.includes(source)) {
+            throw new SpecFileError(file, `circular $ref ${ref} can only be bundled when it refers to a component`);
+        }
+        this.inlining.push(source);
+        try {
+            const value = await this.copy(resolvePointer(await this.load(target), pointer, source), target);
+            return isObject(value) ? { ...value, ...siblings } : value;
+        } finally {
+            this.inlining.pop();
+        }
+    }
+
+    // adds the component to the bundle (once) and returns its internal `$ref`, components with the same name should be the same
+    private async addComponent(file: string, kind: string, name: string) {
+        const source = `${file}#/components/${kind}/${name}`;
+        const ref = `#/components/${kind}/${name}`;
+        const known = this.refs.get(source);
+        if (known) return known;
+        // registered before copying, so recursive components refer to themselves
+        this.refs.set(source, ref);
+        const value = resolvePointer(await this.load(file), ['components', kind, name], source);
+        const existingSource = this.sources.get(`${kind}/${name}`);
+        const named = (this.components[kind] ??= {});
+        if (!existingSource) {
+            this.sources.set(`${kind}/${name}`, source);
+            named[name] = await this.copy(value, file);
+            return ref;
+        }
+        // e.g. the schema of a nested type that is generated in the types files of several spec files
+        const existing = named[name] ?? (await this.copy(components(await this.load(this.entry))[kind]?.[name], this.entry));
+        if (!isEqual(await this.copy(value, file), existing)) {
+            throw new SpecFileError(file, `${kind} ${name} differs from ${existingSource}, so they can not be bundled together`);
+        }
+        return ref;
+    }
+
+    // the (generated or parsed) contents of a spec file
+    private async load(file: string) {
+        if (!this.documents.has(file)) {
+            this.documents.set(file, load(await promises.readFile(file, 'utf8')));
+        }
+        return this.documents.get(file);
+    }
+}
+
+function components(document: unknown): Components {
+    const result = isObject(document) ? document['components'] : undefined;
+    return isObject(result) ? (result as Components) : {};
+}
+
+// `/paths/~1pets~1%7BpetId%7D` becomes `['paths', '/pets/{petId}']`
+function parsePointer(fragment: string) {
+    return fragment
+        .split('/')
+        .slice(1)
+        .map(key => decodeURIComponent(key).replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function resolvePointer(document: unknown, pointer: string[], source: string) {
+    let value = document;
+    for (const key of pointer) {
+        if (!isObject(value) || !(key in value)) {
+            throw new Error(`could not resolve $ref to ${source}`);
+        }
+        value = value[key];
+    }
+    return value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && !!value;
+}
@@ -0,0 +1,71 @@
+import { isEqual } from 'lodash';
+
+/** A single difference between two versions of an OpenAPI document */
+export type SpecChange = {
+    kind: 'added' | 'removed' | 'changed';
+    /** what changed, for example `schema Pet` or `$ref at /paths/~1pet/post/requestBody/content/application~1json/schema` */
+    subject: string;
+};
+
+/**
+ * Compares two versions of an OpenAPI document and returns the (generated) schemas and `$ref`s that differ. Other differences are
+ * reported as a single change of the document itself.
+ */
+export function diffSpecs(before: unknown, after: unknown): SpecChange[] {
+    const changes = [
+        ...diffMaps(collectSchemas(before), collectSchemas(after), name => `schema ${name}`),
+        ...diffMaps(collectRefs(before), collectRefs(after), pointer => `$ref at ${pointer}`),
+    ];
+    if (!changes.length && !isEqual(before, after)) {
+        changes.push({ kind: 'changed', subject: 'document' });
+    }
+    return changes;
+}
+
+/** Formats the changes as a human readable report, one line per change */
+export function formatChanges(changes: SpecChange[]) {
+    const PREFIX = { added: '+', removed: '-', changed: '~' };
+    return changes.map(({ kind, subject }) => `  ${PREFIX[kind]} ${kind} ${subject}`).join('\n');
+}
+
+function diffMaps(before: Map<string, unknown>, after: Map<string, unknown>, describe: (key: string) => string): SpecChange[] {
+    const changes: SpecChange[] = [];
+    for (const [key, value] of after) {
+        if (!before.has(key)) {
+            changes.push({ kind: 'added', subject: describe(key) });
+        } else if (!isEqual(before.get(key), value)) {
+            changes.push({ kind: 'changed', subject: describe(key) });
+        }
+    }
+    for (const key of before.keys()) {
+        if (!after.has(key)) {
+            changes.push({ kind: 'removed', subject: describe(key) });
+        }
+    }
+    return changes;
+}
+
+function collectSchemas(doc: unknown) {
+    const schemas = (doc as { components?: { schemas?: Record<string, unknown> } } | undefined)?.components?.schemas;
+    return new Map(Object.entries(schemas ?? {}));
+}
+
+// collects all `$ref`s in the document by the JSON pointer of the object that contains them, `$ref`s inside the schemas are already
+// covered by `collectSchemas`
+function collectRefs(doc: unknown) {
+    const refs = new Map<string, unknown>();
+    (function visit(node: unknown, pointer: string) {
+        if (Array.isArray(node)) {
+            node.forEach((child, index) => visit(child, `${pointer}/${index}`));
+        } else if (typeof node === 'object' && !!node && pointer !== '/components/schemas') {
+            for (const [key, child] of Object.entries(node)) {
+                if (key === '$ref') {
+                    refs.set(pointer || '/', child);
+                } else {
+                    visit(child, `${pointer}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`);
+                }
+            }
+        }
+    })(doc, '');
+    return refs;
+}
@@ -0,0 +1,62 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { updateRefs, updateValues } from './spec-editor';
+
+const JSON_SPEC = ['{', '\t"schema": {', '\t\t"x-skunkteam-type": "./types.ts#Pet"', '\t}', '}', ''].join('\n');
+const YAML_SPEC = `schema:
+  x-skunkteam-type: ./types.ts#Pet # the pet
+list:
+  - x-skunkteam-type: ./types.ts#Tag
+`;
+
+test('inserted lines use the indentation of the json spec', () => {
+    const withRef = updateRefs(JSON_SPEC, [{ path: ['schema'], ref: './api.types.json#/components/schemas/Pet' }], 'json');
+    assert.strictEqual(
+        withRef,
+        [
+            '{',
+            '\t"schema": {',
+            '\t\t"x-skunkteam-type": "./types.ts#Pet",',
+            '\t\t"$ref": "./api.types.json#/components/schemas/Pet"',
+            '\t}',
+            '}',
+            '',
+        ].join('\n'),
+    );
+    const withExamples = updateValues(JSON_SPEC, [{ path: [], key: 'examples', value: { rex: { value: 1 } }, after: 'schema' }], 'json');
+    assert.strictEqual(
+        withExamples,
+        [
+            '{',
+            '\t"schema": {',
+            '\t\t"x-skunkteam-type": "./types.ts#Pet"',
+            '\t},',
+            '\t"examples": {',
+            '\t\t"rex": {',
+            '\t\t\t"value": 1',
+            '\t\t}',
+            '\t}',
+            '}',
+            '',
+        ].join('\n'),
+    );
+});
+
+test('a $ref is inserted after the annotation in a yaml spec, after its comment and in sequence items', () => {
+    const updates = [
+        { path: ['schema'], ref: './api.types.yml#/components/schemas/Pet' },
+        { path: ['list', 0], ref: './api.types.yml#/components/schemas/Tag' },
+    ];
+    assert.strictEqual(
+        updateRefs(YAML_SPEC, updates, 'yaml'),
+        [
+            'schema:',
+            '  x-skunkteam-type: ./types.ts#Pet # the pet',
+            '  $ref: ./api.types.yml#/components/schemas/Pet',
+            'list:',
+            '  - x-skunkteam-type: ./types.ts#Tag',
+            '    $ref: ./api.types.yml#/components/schemas/Tag',
+            '',
+        ].join('\n'),
+    );
+});
@@ -0,0 +1,157 @@
+import { isCollection, isMap, isScalar, parseDocument, Scalar, stringify } from 'yaml';
+
+/** A `$ref` that should be present in the object at the given path of the document */
+export type RefUpdate = { path: Array<string | number>; ref: string };
+
+/** A value that should be present under the given key of the object at the given path, a new key is inserted after the `after` key */
+export type ValueUpdate = { path: Array<string | number>; key: string; value: unknown; after: string };
+
+type Edit = { start: number; end: number; text: string };
+
+/**
+ * Inserts or updates the `$ref`s in the source of a (yaml or json) OpenAPI document, by editing the source text in place. Everything else
+ * (comments, anchors, quoting, key order and whitespace) is left untouched. A new `$ref` is inserted directly after the
+ * `x-skunkteam-type` annotation of the object.
+ */
+export function updateRefs(source: string, updates: RefUpdate[], format: 'yaml' | 'json') {
+    const doc = parseDocument(source, { keepSourceTokens: true });
+    if (doc.errors.length) {
+        throw doc.errors[0];
+    }
+    const edits: Edit[] = [];
+    for (const { path, ref } of updates) {
+        const node = doc.getIn(path, true);
+        // objects that are reached through an alias are updated through the path of their anchor
+        if (!isMap(node)) continue;
+        const pairs = node.items.filter(pair => isScalar(pair.key));
+        const refValue = pairs.find(pair => (pair.key as Scalar).value === '$ref')?.value;
+        if (isScalar(refValue) && refValue.range) {
+            if (refValue.value !== ref) {
+                edits.push({ start: refValue.range[0], end: refValue.range[1], text: scalarSource(ref, format, refValue.type) });
+            }
+            continue;
+        }
+        const annotation = pairs.find(pair => (pair.key as Scalar).value === 'x-skunkteam-type');
+        const key = annotation?.key as Scalar | undefined;
+        const value = annotation?.value;
+        if (!key?.range || !isScalar(value) || !value.range) continue;
+        const keyText = format === 'json' ? '"$ref"' : '$ref';
+        const lineStart = source.lastIndexOf('\n', key.range[0] - 1) + 1;
+        const indentation = source.slice(lineStart, key.range[0]);
+        const ownLine = /^[\s-]*$/.test(indentation);
+        // the same whitespace (e.g. tabs in json) as the line of the annotation, without the `-` of a sequence item
+        const prefix = indentation.replace(/[^\s]/g, ' ');
+        if (node.flow || format === 'json') {
+            // `{ x-skunkteam-type: ..., ... }` or json, insert directly after the value of the annotation
+            const separator = ownLine ? `,\n${prefix}` : ', ';
+            edits.push({ start: value.range[1], end: value.range[1], text: `${separator}${keyText}: ${scalarSource(ref, format)}` });
+        } else {
+            // block mapping, insert a new line after the line of the annotation (so after any comment on that line)
+            const lineEnd = source.indexOf('\n', value.range[1]);
+            const position = lineEnd < 0 ? source.length : lineEnd;
+            const newLine = source[position - 1] === '\r' ? '\r\n' : '\n';
+            const start = source[position - 1] === '\r' ? position - 1 : position;
+            edits.push({ start, end: start, text: `${newLine}${prefix}${keyText}: ${scalarSource(ref, format)}` });
+        }
+    }
+    return applyEdits(source, edits);
+}
+
+/**
+ * Inserts or replaces complete values in the source of a (yaml or json) OpenAPI document, by editing the source text in place. Collections
+ * that replace a block collection or are inserted in a block mapping in yaml are written as block collection, other values are written
+ * in flow style.
+ */
+export function updateValues(source: string, updates: ValueUpdate[], format: 'yaml' | 'json') {
+    const doc = parseDocument(source, { keepSourceTokens: true });
+    if (doc.errors.length) {
+        throw doc.errors[0];
+    }
+    const edits: Edit[] = [];
+    // json values use the same indentation as the rest of the document
+    const indentation = /^([ \t]+)"/m.exec(source)?.[1] ?? 2;
+    for (const { path, key, value, after } of updates) {
+        const node = doc.getIn(path, true);
+        if (!isMap(node)) continue;
+        const pairs = node.items.filter(pair => isScalar(pair.key));
+        const existing = pairs.find(pair => (pair.key as Scalar).value === key)?.value;
+        if ((isScalar(existing) || isCollection(existing)) && existing.range) {
+            const [start, rangeEnd] = existing.range;
+            // the range of a block collection includes the whitespace up to the next key
+            const end = start + source.slice(start, rangeEnd).trimEnd().length;
+            const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+            const prefix = /^[ \t]*/.exec(source.slice(lineStart))?.[0] ?? '';
+            const block = format === 'yaml' && isCollection(existing) && !existing.flow;
+            const text =
+                typeof value === 'string' && isScalar(existing)
+                    ? scalarSource(value, format, existing.type)
+                    : valueSource(value, format, block, prefix, indentation);
+            edits.push({ start, end, text });
+            continue;
+        }
+        const previous = pairs.find(pair => (pair.key as Scalar).value === after);
+        const previousKey = previous?.key as Scalar | undefined;
+        const previousValue = previous?.value;
+        if (!previousKey?.range || !(isScalar(previousValue) || isCollection(previousValue)) || !previousValue.range) continue;
+        // the range of a block collection includes the whitespace up to the next key
+        const valueEnd = previousValue.range[0] + source.slice(previousValue.range[0], previousValue.range[1]).trimEnd().length;
+        const lineStart = source.lastIndexOf('\n', previousKey.range[0] - 1) + 1;
+        const ownLine = /^[\s-]*$/.test(source.slice(lineStart, previousKey.range[0]));
+        // the same whitespace as the line of the previous key, without the `-` of a sequence item
+        const prefix = source.slice(lineStart, previousKey.range[0]).replace(/[^\s]/g, ' ');
+        const keyText = format === 'json' ? JSON.stringify(key) : key;
+        if (node.flow || format === 'json') {
+            const separator = ownLine ? `,\n${prefix}` : ', ';
+            const text = `${separator}${keyText}: ${valueSource(value, format, false, prefix, indentation)}`;
+            edits.push({ start: valueEnd, end: valueEnd, text });
+        } else {
+            const lineEnd = source.indexOf('\n', valueEnd);
+            const position = lineEnd < 0 ? source.length : lineEnd;
+            const newLine = source[position - 1] === '\r' ? '\r\n' : '\n';
+            const start = source[position - 1] === '\r' ? position - 1 : position;
+            if (typeof value !== 'object' || value === null) {
+                // scalars are written on the line of the key
+                const text =
+                    typeof value === 'string' ? scalarSource(value, format) : valueSource(value, format, false, prefix, indentation);
+                edits.push({ start, end: start, text: `${newLine}${prefix}${keyText}: ${text}` });
+                continue;
+            }
+            const text = `${newLine}${prefix}${keyText}:${newLine}${prefix}  `;
+            edits.push({
+                start,
+                end: start,
+                text: text + valueSource(value, format, true, `${prefix}  `, indentation).replace(/\n/g, newLine),
+            });
+        }
+    }
+    return applyEdits(source, edits);
+}
+
+// apply the edits from the end of the source to the start, so the positions of the other edits remain valid
+function applyEdits(source: string, edits: Edit[]) {
+    return edits
+        .sort((a, b) => b.start - a.start)
+        .reduce((result, { start, end, text }) => result.slice(0, start) + text + result.slice(end), source);
+}
+
+// the source of a value that starts after the given whitespace, all lines but the first are indented with that whitespace
+function valueSource(value: unknown, format: 'yaml' | 'json', block: boolean, prefix: string, indentation: string | number) {
+    let text: string;
+    if (format === 'json') {
+        text = JSON.stringify(value, undefined, indentation);
+    } else {
+        text = block ? stringify(value, { lineWidth: 0 }).trimEnd() : JSON.stringify(value);
+    }
+    return text.replace(/\n/g, `\n${prefix}`);
+}
+
+// the source of a string value, using the same quoting style as the value it replaces
+function scalarSource(value: string, format: 'yaml' | 'json', type?: Scalar.Type) {
+    if (format === 'json' || type === 'QUOTE_DOUBLE') {
+        return JSON.stringify(value);
+    }
+    if ((type === undefined || type === 'PLAIN') && /^[\w./~-][\w./~#-]*$/.test(value)) {
+        return value;
+    }
+    return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,111 @@
+import assert from 'assert';
+import { promises } from 'fs';
+import { load } from 'js-yaml';
+import { test } from 'node:test';
+import type { OpenAPIV3 } from 'openapi-types';
+import path from 'path';
+import { generateFromSpec, SpecFileError } from './spec-generator';
+
+test('a spec file that cannot be edited results in an error instead of a rejection', async () => {
+    // the parser of the spec accepts the duplicate key, the editor of the source does not
+    const spec =
+        '{"openapi": "3.0.3", "info": {"title": "pets", "title": "pets"}, "paths": {}, ' +
+        '"components": {"schemas": {"Pet": {"x-skunkteam-type": "../types.ts#Pet"}}}}';
+    const dir = await promises.mkdtemp(path.join(__dirname, '.spec-generator-'));
+    try {
+        const file = path.join(dir, 'openapi.json');
+        await promises.writeFile(file, spec, 'utf8');
+        const result = await generateFromSpec(file);
+        assert.deepStrictEqual(result.files, []);
+        assert.strictEqual(result.errors.length, 1);
+        assert.ok(result.errors[0] instanceof SpecFileError);
+        assert.strictEqual(result.errors[0].file, file);
+    } finally {
+        await promises.rm(dir, { recursive: true, force: true });
+    }
+});
+
+test('the previously generated parameters are replaced, the handwritten parameters are kept', async () => {
+    const spec = `openapi: 3.0.3
+info: { title: pets, version: '1' }
+paths:
+  /pets/{petId}:
+    get:
+      x-skunkteam-parameters: ./types.ts#PetQuery
+      parameters:
+        - { name: X-Trace, in: header, schema: { type: string } }
+        - { name: removed, in: query, schema: { type: string }, x-skunkteam-generated: true }
+      responses:
+        '200': { description: the pet }
+`;
+    const types = `import { object, string } from '@skunkteam/types';
+export const PetQuery = object('PetQuery', { petId: string });
+`;
+    const dir = await promises.mkdtemp(path.join(__dirname, '.spec-generator-'));
+    try {
+        const file = path.join(dir, 'openapi.yml');
+        await promises.writeFile(file, spec, 'utf8');
+        await promises.writeFile(path.join(dir, 'types.ts'), types, 'utf8');
+        const { files, errors } = await generateFromSpec(file);
+        assert.deepStrictEqual(errors, []);
+        const { text = '' } = files.find(written => written.file === file) ?? {};
+        const { paths } = load(text) as OpenAPIV3.Document;
+        assert.deepStrictEqual(paths['/pets/{petId}']?.get?.parameters, [
+            { name: 'X-Trace', in: 'header', schema: { type: 'string' } },
+            { 'name': 'petId', 'in': 'path', 'required': true, 'schema': { type: 'string' }, 'x-skunkteam-generated': true },
+        ]);
+    } finally {
+        await promises.rm(dir, { recursive: true, force: true });
+    }
+});
+
+test('the module naming strategy qualifies the schema names with the name of their module', async () => {
+    const spec = `openapi: 3.0.3
+info: { title: pets, version: '1' }
+paths:
+  /pets:
+    get:
+      responses:
+        '200':
+          description: the pet
+          content: { application/json: { schema: { x-skunkteam-type: ./pets.ts#Pet } } }
+        default:
+          description: the legacy pet
+          content: { application/json: { schema: { x-skunkteam-type: ./legacy.v1.ts#Pet } } }
+`;
+    const dir = await promises.mkdtemp(path.join(__dirname, '.spec-generator-'));
+    try {
+        const file = path.join(dir, 'openapi.yml');
+        await promises.writeFile(file, spec, 'utf8');
+        await promises.writeFile(path.join(dir, 'pets.ts'), petModule('name'), 'utf8');
+        await promises.writeFile(path.join(dir, 'legacy.v1.ts'), petModule('title'), 'utf8');
+        // the types have the same name, so they clash without the module names
+        const clash = await generateFromSpec(file);
+        assert.match(clash.errors.map(String).join('\n'), /duplicate types named "Pet"/);
+
+        const { files, errors } = await generateFromSpec(file, { naming: 'module' });
+        assert.deepStrictEqual(errors, []);
+        const { text: typesText = '' } = files.find(written => written.file === path.join(dir, 'openapi.types.yml')) ?? {};
+        const { components } = load(typesText) as OpenAPIV3.Document;
+        assert.deepStrictEqual(Object.keys(components?.schemas ?? {}), ['pets.Pet', 'legacy.v1.Pet']);
+        const { text = '' } = files.find(written => written.file === file) ?? {};
+        const { paths } = load(text) as OpenAPIV3.Document;
+        const responses = paths['/pets']?.get?.responses as Record<string, OpenAPIV3.ResponseObject>;
+        assert.deepStrictEqual(
+            ['200', 'default'].map(status => responses[status]?.content?.['application/json']?.schema),
+            [
+                { 'x-skunkteam-type': './pets.ts#Pet', '$ref': './openapi.types.yml#/components/schemas/pets.Pet' },
+                { 'x-skunkteam-type': './legacy.v1.ts#Pet', '$ref': './openapi.types.yml#/components/schemas/legacy.v1.Pet' },
+            ],
+        );
+    } finally {
+        await promises.rm(dir, { recursive: true, force: true });
+    }
+});
+
+// a module with a type named `Pet` with the given property
+function petModule(property: string) {
+    return `import { object, string } from '@skunkteam/types';
+export const Pet = object('Pet', { ${property}: string });
+`;
+}
@@ -0,0 +1,556 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import { BaseObjectLikeTypeImpl, isType, printValue, Type } from '@skunkteam/types';
+import { promises } from 'fs';
+import { dump } from 'js-yaml';
+import { get, isEqual, mapValues, pickBy } from 'lodash';
+import type { OpenAPI, OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import pMap from 'p-map';
+import path from 'path';
+import { namedExamples } from './metadata';
+import { loadTypeModule, resolveTypeModule } from './module-resolver';
+import { GeneratorOptions, generateSchemas, SchemaGenerationError, TypeDefs } from './openapi-definitions-generator';
+import { expandParameters, GENERATED_PARAMETER, ParameterLocation, pathParameterNames } from './parameter-expander';
+import { openApiVersion, OpenApiVersion } from './schema-versions';
+import { INPUT_VARIANT_SUFFIX } from './read-write-variants';
+import { RefUpdate, updateRefs, updateValues, ValueUpdate } from './spec-editor';
+
+const CONCURRENCY = 10;
+
+/** A file that should be written to disk */
+export type WritableFile = { file: string; contents: OpenAPIV3.Document | OpenAPIV3_1.Document; text: string };
+
+export type SpecGeneratorOptions = Omit<GeneratorOptions, 'openapiVersion'> & {
+    /** only process these spec files (absolute paths) instead of all spec files that are (indirectly) referenced by the entry spec */
+    only?: string[];
+    /**
+     * returns the filename of the generated types file for the given spec file (relative to `outputDir`, or absolute), defaults to adding
+     * `.types` before the extension
+     */
+    typesFileName?: (specFile: string) => string;
+    /** the directory to write the generated types files to, defaults to the directory of the spec file */
+    outputDir?: string;
+    /** the format of the generated types files, defaults to the format of the spec file */
+    format?: 'yaml' | 'json';
+    /** the maximum line width of generated yaml files, defaults to 140 */
+    lineWidth?: number;
+    /** the indentation of generated json files, defaults to the indentation of the spec file */
+    indent?: string | number;
+    /**
+     * generate a single types file (absolute path) with the types of all spec files, instead of a types file per spec file. All spec files
+     * are always processed, because they all contribute to the shared types file, so `only`, `typesFileName` and `outputDir` are ignored
+     */
+    sharedTypesFile?: string;
+    /**
+     * how the schemas of the annotated types are named when the annotation has no alias (`<module>#<type> as <name>`): after the type
+     * (`Pet`), or after the module and the type (`pets.Pet` for `./pets.ts#Pet`) to prevent duplicate names. Defaults to `type`
+     */
+    naming?: 'type' | 'module';
+};
+
+export type SpecGenerationResult = {
+    /** all spec files that are (indirectly) referenced by the entry spec */
+    specFiles: string[];
+    /** the files that should be written, `generateFromSpec` itself does not write anything to disk */
+    files: WritableFile[];
+    /** the (absolute paths of the) modules that were loaded (or failed to load) for the `x-skunkteam-type` annotations, per spec file */
+    modules: Map<string, string[]>;
+    errors: SpecGenerationError[];
+};
+
+export type SpecGenerationError = AnnotationError | SpecFileError;
+
+/** The skunkteam type that a `x-skunkteam-type` annotation refers to */
+export type AnnotatedType = {
+    type: Type<unknown>;
+    /** the name of the export of the module */
+    typeName: string;
+    /** the absolute path of the module */
+    module: string;
+    /** the name of the schema as given in the annotation, e.g. `LegacyPet` for `./types.ts#Pet as LegacyPet` */
+    alias?: string;
+};
+
+/** A problem with a single `x-skunkteam-type` annotation */
+export class AnnotationError extends Error {
+    override readonly name = 'AnnotationError';
+
+    constructor(
+        readonly file: string,
+        /** JSON pointer to the annotated object in the spec file */
+        readonly pointer: string,
+        message: string,
+        readonly cause?: unknown,
+    ) {
+        super(`${file}#${pointer}: ${message}`);
+    }
+}
+
+/** A problem with a spec file as a whole, for example a parse error or a type that could not be converted to an OpenAPI schema */
+export class SpecFileError extends Error {
+    override readonly name = 'SpecFileError';
+
+    constructor(readonly file: string, readonly cause: unknown) {
+        super(`${file}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    }
+
+    /** the names of the types that were being processed when the schema generation failed, if that was the problem */
+    get typePath() {
+        return this.cause instanceof SchemaGenerationError ? this.cause.typePath : undefined;
+    }
+}
+
+/**
+ * Generates the OpenAPI schemas for all `x-skunkteam-type` annotations in the given spec file and all spec files it (indirectly) references
+ * using `$ref`. Returns the files that should be written (the spec files with updated `$ref`s and the generated types files) and any errors
+ * that were encountered. Spec files with errors do not result in any files to write.
+ */
+export async function generateFromSpec(entry: string, options: SpecGeneratorOptions = {}): Promise<SpecGenerationResult> {
+    let specFiles: string[];
+    try {
+        specFiles = await findSpecFiles(entry);
+    } catch (e) {
+        return { specFiles: [], files: [], modules: new Map(), errors: [new SpecFileError(entry, e)] };
+    }
+    const { only, sharedTypesFile } = options;
+    if (sharedTypesFile) {
+        return { specFiles, ...(await processSharedTypesFile(specFiles, sharedTypesFile, options)) };
+    }
+    const results = await pMap(only ? specFiles.filter(file => only.includes(file)) : specFiles, file => processSpecFile(file, options), {
+        concurrency: CONCURRENCY,
+    });
+    return {
+        specFiles,
+        files: results.flatMap(result => result.files),
+        modules: new Map(results.map(result => [result.file, result.modules])),
+        errors: results.flatMap(result => result.errors),
+    };
+}
+
+/**
+ * returns the absolute path to the given openapi yaml file, as well as the absolute paths to all the openapi yaml files that are
+ * (indirectly) references using $ref. Does not include externally referenced files over http
+ */
+export async function findSpecFiles(main: string) {
+    const parser = new SwaggerParser();
+    // dereferences all external paths, so we discover all (nested) references to other openapi files
+    await parser.dereference(main);
+    return parser.$refs.paths('file');
+}
+
+/** Generates the OpenAPI schemas for all `x-skunkteam-type` annotations in a single spec file */
+export async function processSpecFile(file: string, options: SpecGeneratorOptions = {}) {
+    const format = options.format ?? (isJson(file) ? 'json' : 'yaml');
+    const typesFile = path.resolve(options.outputDir ?? path.dirname(file), (options.typesFileName ?? defaultTypesFileName(format))(file));
+    const processor = new SpecFileProcessor(file, options, typesFile, {});
+    const files: WritableFile[] = [];
+    const result = () => ({ file, files, modules: [...processor.modules], errors: processor.errors });
+
+    const spec = await processor.collect();
+    if (!spec || processor.errors.length || !Object.keys(processor.types).length) {
+        return result(); // no x-skunkteam-types found (or errors), no need to (re)write files
+    }
+    let generated: WritableFile;
+    try {
+        generated = generateTypesFile(typesFile, format, spec, processor.types, options);
+    } catch (e) {
+        processor.errors.push(new SpecFileError(file, e));
+        return result();
+    }
+    const specFile = processor.specFile(generated.contents);
+    if (specFile) {
+        files.push(specFile, generated);
+    }
+    return result();
+}
+
+/**
+ * Generates a single types file with the schemas of the annotated types of all given spec files, the `$ref`s of all spec files refer to
+ * that types file. The OpenAPI version and info of the types file are taken from the entry spec, which is the first spec file.
+ */
+async function processSharedTypesFile(specFiles: string[], typesFile: string, options: SpecGeneratorOptions) {
+    const types: TypeDefs = {}; // shared by all processors, so duplicate names are detected across spec files
+    const processors = specFiles.map(file => new SpecFileProcessor(file, options, typesFile, types));
+    const specs = (await pMap(processors, processor => processor.collect(), { concurrency: CONCURRENCY })).filter(isDefined);
+    const files: WritableFile[] = [];
+    const errors: SpecGenerationError[] = [];
+    const result = () => ({
+        files,
+        modules: new Map(processors.map(processor => [processor.file, [...processor.modules]])),
+        errors: [...processors.flatMap(processor => processor.errors), ...errors],
+    });
+
+    const [entry] = specs;
+    if (!entry || result().errors.length || !Object.keys(types).length) {
+        return result();
+    }
+    for (const { file, version } of specs) {
+        if (version !== entry.version) {
+            errors.push(new SpecFileError(file, `uses OpenAPI ${version}, but the shared types file uses OpenAPI ${entry.version}`));
+        }
+    }
+    let generated: WritableFile | undefined;
+    try {
+        generated = generateTypesFile(typesFile, options.format ?? (isJson(typesFile) ? 'json' : 'yaml'), entry, types, options);
+    } catch (e) {
+        errors.push(new SpecFileError(typesFile, e));
+    }
+    if (!generated || errors.length) {
+        return result();
+    }
+    const { contents } = generated;
+    const updatedSpecs = processors.filter(processor => processor.annotated).map(processor => processor.specFile(contents));
+    if (!result().errors.length) {
+        files.push(...updatedSpecs.filter(isDefined), generated);
+    }
+    return result();
+}
+
+/** A spec file that has been parsed by a `SpecFileProcessor` */
+type ParsedSpec = { file: string; api: OpenAPIV3.Document | OpenAPIV3_1.Document; source: string; version: OpenApiVersion };
+
+/**
+ * Collects the `x-skunkteam-type` and `x-skunkteam-parameters` annotations of a single spec file, and updates the spec file once the
+ * types file with the schemas of the collected types has been generated.
+ */
+class SpecFileProcessor {
+    readonly modules = new Set<string>(); // the modules that `processTypeAnnotation` loaded, or failed to load
+    readonly errors: SpecGenerationError[] = [];
+    private readonly typeAnnotations: TypeAnnotation[] = []; // the x-skunkteam-types that `processTypeAnnotation` encountered
+    private readonly parameterAnnotations: ParameterAnnotation[] = []; // the x-skunkteam-parameters that `processTypeAnnotation` encountered
+    private readonly typesFileRef: string;
+    private spec?: ParsedSpec;
+
+    constructor(
+        readonly file: string,
+        private readonly options: SpecGeneratorOptions,
+        typesFile: string,
+        /** where `processTypeAnnotation` is going to collect all x-skunkteam-type's it encounters, by the name of their schema */
+        readonly types: TypeDefs,
+    ) {
+        this.typesFileRef = relativeModulePath(file, typesFile);
+    }
+
+    /** whether the spec file has any annotations, otherwise there is no need to (re)write it */
+    get annotated() {
+        return this.typeAnnotations.length > 0 || this.parameterAnnotations.length > 0;
+    }
+
+    /** parses the spec file and collects the types of its annotations, returns nothing when the spec file could not be parsed */
+    async collect(): Promise<ParsedSpec | undefined> {
+        const { file } = this;
+        let api: OpenAPI.Document;
+        let source: string;
+        try {
+            // only parse (do not resolve) as we need to reconstruct original yaml as much as possible
+            api = await new SwaggerParser().parse(file);
+            source = await promises.readFile(file, 'utf8');
+        } catch (e) {
+            this.errors.push(new SpecFileError(file, e));
+            return;
+        }
+        const version = openApiVersion(api);
+        if (!version || !isOpenAPIV3(api)) {
+            this.errors.push(new SpecFileError(file, 'only supports OpenAPI v3.0 and v3.1'));
+            return;
+        }
+        await this.processTypeAnnotation(api); // recursive processing of all elements in openapi yaml
+        return (this.spec = { file, api, source, version });
+    }
+
+    /** the spec file with `$ref`s to the generated schemas and the expanded parameters, returns nothing when there were problems */
+    specFile(typesFileContents: WritableFile['contents']): WritableFile | undefined {
+        const { file, spec } = this;
+        if (!spec) return;
+        const schemas = (typesFileContents.components?.schemas ?? {}) as Record<string, OpenAPIV3.SchemaObject>;
+        // the `$ref`s that are added to the annotated objects, so we can edit the original source in place
+        const refUpdates = this.typeAnnotations.map(({ object, location, schemaName: name }): RefUpdate => {
+            const ref = `${this.typesFileRef}#/components/schemas/${this.variantName(name, isInput(location), schemas)}`;
+            object['$ref'] = ref;
+            return { path: location, ref };
+        });
+        const valueUpdates = [
+            ...this.parameterAnnotations.map(annotation => this.replaceParameters(annotation, schemas)),
+            ...this.typeAnnotations.flatMap(annotation => this.replaceExamples(annotation, spec.api)),
+        ];
+        if (this.errors.length) return;
+        const format = isJson(file) ? 'json' : 'yaml';
+        let text: string;
+        try {
+            // edit the original source instead of serializing `api`, to preserve comments and formatting
+            text = updateValues(updateRefs(spec.source, refUpdates, format), valueUpdates, format);
+        } catch (e) {
+            // the source could not be parsed for editing
+            this.errors.push(new SpecFileError(file, e));
+            return;
+        }
+        return { file, contents: spec.api, text };
+    }
+
+    // Process a node in an openapi yaml (and recurse into the children of the node).
+    // Collect any type references that are found (having x-skunkteam-types annotation)
+    private async processTypeAnnotation(object: unknown, location: Array<string | number> = []): Promise<void> {
+        if (Array.isArray(object)) {
+            // recurse into array elements
+            await Promise.all(object.map((element, index) => this.processTypeAnnotation(element, [...location, index])));
+        } else if (isObject(object)) {
+            // recurse into all properties of an object
+            await Promise.all(Object.entries(object).map(([key, value]) => this.processTypeAnnotation(value, [...location, key])));
+            // and see if the object has a x-skunkteam-type annotation. If so, collect the type
+            if (typeof object['x-skunkteam-type'] === 'string') {
+                const collected = await this.collectType(object['x-skunkteam-type'], location);
+                if (!collected) return;
+                // a $ref to the (to be) generated openapi schema is added to the object once the schemas are generated, because the name
+                // of the schema depends on the generated variants
+                this.typeAnnotations.push({ object, location, type: collected.type, schemaName: collected.schemaName });
+            }
+            // an operation can have a x-skunkteam-parameters annotation with the object type(s) to expand into parameters
+            if ('x-skunkteam-parameters' in object) {
+                await this.collectParameters(object, object['x-skunkteam-parameters'], location);
+            }
+        }
+    }
+
+    // loads the type of an annotation and remembers it, so we can convert them all to openapi schema definitions
+    private async collectType(annotation: string, location: Array<string | number>) {
+        const { file, types } = this;
+        const pointer = jsonPointer(location);
+        let annotated: AnnotatedType;
+        try {
+            // the module is remembered before it is loaded, so the watch mode keeps watching a module that is broken
+            annotated = await loadAnnotatedType(annotation, file, pointer, module => this.modules.add(module));
+        } catch (e) {
+            this.errors.push(e instanceof AnnotationError ? e : new AnnotationError(file, pointer, String(e), e));
+            return;
+        }
+        const { type, typeName } = annotated;
+        const name = schemaName(annotated, this.options.naming);
+        if (types[name] && types[name] !== type) {
+            const message = `duplicate types named "${name}", use an alias (<module>#<type> as <name>) or the module naming strategy`;
+            this.errors.push(new AnnotationError(file, pointer, message));
+            return;
+        }
+        const otherName = Object.keys(types).find(other => other !== name && types[other] === type);
+        if (otherName) {
+            const message = `${typeName} is also annotated with name "${otherName}", use the same name for every annotation of a type`;
+            this.errors.push(new AnnotationError(file, pointer, message));
+            return;
+        }
+        types[name] = type;
+        return { ...annotated, schemaName: name };
+    }
+
+    // `x-skunkteam-parameters: ./types.ts#Query` or `x-skunkteam-parameters: { query: ./types.ts#Query, header: ./types.ts#Headers }`
+    private async collectParameters(operation: Record<string, unknown>, annotation: unknown, location: Array<string | number>) {
+        const pointer = jsonPointer(location);
+        const entries = typeof annotation === 'string' ? [[undefined, annotation] as const] : Object.entries(annotation ?? {});
+        const sources: ParameterAnnotation['sources'] = [];
+        for (const [parameterLocation, typeAnnotation] of entries) {
+            if (typeof typeAnnotation !== 'string' || (parameterLocation && !PARAMETER_LOCATIONS.includes(parameterLocation))) {
+                const message = `x-skunkteam-parameters annotation should be <module>#<type> or an object with ${LOCATIONS} as keys`;
+                this.errors.push(new AnnotationError(this.file, pointer, message));
+                return;
+            }
+            const collected = await this.collectType(typeAnnotation, location);
+            if (!collected) return;
+            if (!(collected.type instanceof BaseObjectLikeTypeImpl)) {
+                const message = `${collected.typeName} is not an object type, so it can not be expanded into parameters`;
+                this.errors.push(new AnnotationError(this.file, pointer, message));
+                return;
+            }
+            sources.push({
+                location: parameterLocation as ParameterLocation | undefined,
+                type: collected.type,
+                schemaName: collected.schemaName,
+            });
+        }
+        // the path template of the operation, to find out which properties are path parameters
+        const pathTemplate = location[location.length - 3] === 'paths' ? String(location[location.length - 2]) : '';
+        this.parameterAnnotations.push({ operation, location, pathTemplate, sources });
+    }
+
+    // replaces the previously generated parameters of an operation with the parameters that are expanded from its annotation
+    private replaceParameters(
+        { operation, location, pathTemplate, sources }: ParameterAnnotation,
+        schemas: Record<string, OpenAPIV3.SchemaObject>,
+    ) {
+        // parameters are input, so they use the input variant of the schema (if any)
+        const generated = sources.flatMap(({ location: parameterLocation, type, schemaName: name }) =>
+            expandParameters(type, schemas[this.variantName(name, true, schemas)] ?? {}, {
+                location: parameterLocation,
+                pathParameters: pathParameterNames(pathTemplate),
+                schemasRef: `${this.typesFileRef}#/components/schemas`,
+                schemas,
+            }),
+        );
+        const existing: unknown[] = Array.isArray(operation['parameters']) ? operation['parameters'] : [];
+        const handwritten = existing.filter(parameter => !hasProperty(parameter, GENERATED_PARAMETER));
+        for (const parameter of generated) {
+            if (handwritten.some(other => isSameParameter(other, parameter))) {
+                const message = `x-skunkteam-parameters generates ${parameter.in} parameter "${parameter.name}" that is already declared`;
+                this.errors.push(new AnnotationError(this.file, jsonPointer(location), message));
+            }
+        }
+        const parameters = [...handwritten, ...generated];
+        operation['parameters'] = parameters;
+        const update: ValueUpdate = { path: location, key: 'parameters', value: parameters, after: 'x-skunkteam-parameters' };
+        return update;
+    }
+
+    // replaces the previously generated examples of a media type with the named examples of its annotated type
+    private replaceExamples({ location, type }: TypeAnnotation, api: ParsedSpec['api']): ValueUpdate[] {
+        if (location[location.length - 1] !== 'schema' || location[location.length - 3] !== 'content') return [];
+        const mediaTypeLocation = location.slice(0, -1);
+        const mediaType: Record<string, unknown> = get(api, mediaTypeLocation);
+        const existing = mediaType['examples'] ?? {};
+        const handwritten = pickBy(existing, example => !hasProperty(example, GENERATED_PARAMETER));
+        const generated = mapValues(namedExamples(type), example => ({ ...example, [GENERATED_PARAMETER]: true }));
+        // `example` and `examples` are mutually exclusive, handwritten examples win
+        const examples = 'example' in mediaType ? handwritten : { ...generated, ...handwritten };
+        if (isEqual(examples, existing)) return [];
+        mediaType['examples'] = examples;
+        return [{ path: mediaTypeLocation, key: 'examples', value: examples, after: 'schema' }];
+    }
+
+    // the input variant of the schema (see `readWriteVariants`) for input, e.g. a request body, otherwise the (output) schema itself
+    private variantName(name: string, input: boolean, schemas: Record<string, unknown>) {
+        const inputName = name + INPUT_VARIANT_SUFFIX;
+        return this.options.readWriteVariants && input && inputName in schemas ? inputName : name;
+    }
+}
+
+/** A x-skunkteam-type annotation, the `$ref` is added to the annotated object once the schemas have been generated */
+type TypeAnnotation = { object: Record<string, unknown>; location: Array<string | number>; type: Type<unknown>; schemaName: string };
+
+// whether the annotation describes input (a request body or parameter) instead of output
+function isInput(location: Array<string | number>) {
+    return location.some(key => key === 'requestBody' || key === 'requestBodies' || key === 'parameters');
+}
+
+// the types file with the schemas of the given types, using the OpenAPI version and info of the given spec
+function generateTypesFile(
+    file: string,
+    format: 'yaml' | 'json',
+    { api, source, version }: ParsedSpec,
+    types: TypeDefs,
+    options: SpecGeneratorOptions,
+): WritableFile {
+    const contents: WritableFile['contents'] = {
+        openapi: version === '3.1' ? '3.1.0' : '3.0.0',
+        info: { ...api.info, title: `Types for ${api.info.title}` },
+        paths: {},
+        ...generateSchemas('components/schemas', types, { ...options, openapiVersion: version }),
+    };
+    return {
+        file,
+        contents,
+        text: serialize(contents, format, { lineWidth: options.lineWidth, indent: options.indent ?? jsonIndentation(source) }),
+    };
+}
+
+const PARAMETER_LOCATIONS = ['path', 'query', 'header', 'cookie'];
+const LOCATIONS = PARAMETER_LOCATIONS.join(', ');
+
+/** An operation with a x-skunkteam-parameters annotation, with the object types that should be expanded into parameters */
+type ParameterAnnotation = {
+    operation: Record<string, unknown>;
+    location: Array<string | number>;
+    pathTemplate: string;
+    sources: Array<{ location?: ParameterLocation; type: BaseObjectLikeTypeImpl<unknown>; schemaName: string }>;
+};
+
+/**
+ * Loads the skunkteam type that the given `x-skunkteam-type` annotation refers to. The module of the annotation is resolved relative to
+ * the spec file that contains the annotation (at the given JSON pointer). `onResolve` is called with the filename of the module before it
+ * is loaded.
+ */
+export async function loadAnnotatedType(
+    annotation: string,
+    file: string,
+    pointer: string,
+    onResolve?: (module: string) => void,
+): Promise<AnnotatedType> {
+    const [reference = '', alias] = annotation.split(/\s+as\s+/);
+    const [libName, typeName] = reference.split('#');
+    if (!libName || !typeName || (alias !== undefined && !/^[\w.-]+$/.test(alias))) {
+        const message =
+            'x-skunkteam-type annotation should be in format <module>#<type> or <module>#<type> as <name>, for example ./foo.ts#User';
+        throw new AnnotationError(file, pointer, message);
+    }
+    let filename: string;
+    let lib: Record<string, unknown>;
+    try {
+        filename = resolveTypeModule(libName, file);
+        onResolve?.(filename);
+        lib = await loadTypeModule(filename);
+    } catch (e) {
+        const reason = e instanceof Error ? e.stack : e;
+        throw new AnnotationError(file, pointer, `Could not load lib: ${libName} (check your ts-node version): ${reason}`, e);
+    }
+    const type = lib[typeName];
+    if (!isType(type)) {
+        const message = `Library ${libName} does not export a type with name ${typeName}, got: ${printValue(type)}`;
+        throw new AnnotationError(file, pointer, message);
+    }
+    return { type, typeName, module: filename, alias };
+}
+
+// the name of the generated schema of an annotated type, its alias or (optionally qualified with the name of its module) its type name
+function schemaName({ typeName, module, alias }: AnnotatedType, naming: SpecGeneratorOptions['naming']) {
+    return alias ?? (naming === 'module' ? `${path.parse(module).name}.${typeName}` : typeName);
+}
+
+function serialize(
+    contents: WritableFile['contents'],
+    format: 'yaml' | 'json',
+    { lineWidth = 140, indent = 2 }: { lineWidth?: number; indent?: string | number },
+) {
+    return format === 'json' ? JSON.stringify(contents, undefined, indent) + '\n' : dump(contents, { noRefs: true, lineWidth });
+}
+
+function isJson(file: string) {
+    return /\.json$/.test(file);
+}
+
+// the indentation of a json file, so generated json files use the same indentation as the spec files they belong to
+function jsonIndentation(source: string) {
+    return /^([ \t]+)"/m.exec(source)?.[1];
+}
+
+function isOpenAPIV3(doc: OpenAPI.Document): doc is OpenAPIV3.Document | OpenAPIV3_1.Document {
+    return !!openApiVersion(doc);
+}
+
+// by default the types file is named after the spec file, e.g. `openapi.types.yml` for `openapi.yml`
+function defaultTypesFileName(format: 'yaml' | 'json') {
+    return (specFile: string) => {
+        const { name, ext } = path.parse(specFile);
+        const extension = format === 'json' ? '.json' : ext === '.yml' ? '.yml' : '.yaml';
+        return `${name}.types${extension}`;
+    };
+}
+
+// the path of a file relative to the directory of the spec file, as used in a `$ref`
+function relativeModulePath(specFile: string, file: string) {
+    const relative = path.relative(path.dirname(specFile), file).split(path.sep).join('/');
+    return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+function isSameParameter(parameter: unknown, { name, in: location }: { name: string; in: string }) {
+    return hasProperty(parameter, 'name') && parameter.name === name && hasProperty(parameter, 'in') && parameter.in === location;
+}
+
+function jsonPointer(location: Array<string | number>) {
+    return location.map(key => `/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+function hasProperty<T, P extends PropertyKey>(obj: T, key: P): obj is T & Record<P, unknown> {
+    return typeof obj === 'object' && obj && key in obj;
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+    return value !== undefined;
+}
@@ -0,0 +1,144 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import type { OpenAPIV3 } from 'openapi-types';
+import path from 'path';
+import { AnnotatedType, loadAnnotatedType } from './spec-generator';
+
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+/** The annotated types of a request or response body by media type, content without a `x-skunkteam-type` annotation is `undefined` */
+export type AnnotatedContent = Record<string, AnnotatedType | undefined>;
+
+export type SpecParameter = {
+    name: string;
+    in: string;
+    required: boolean;
+    schema?: OpenAPIV3.SchemaObject;
+    /** the type of the `x-skunkteam-type` annotation on the schema of the parameter, if any */
+    type?: AnnotatedType;
+};
+
+export type SpecOperation = {
+    path: string;
+    method: HttpMethod;
+    operationId?: string;
+    summary?: string;
+    /** the parameters of both the path item and the operation */
+    parameters: SpecParameter[];
+    requestBody?: { required: boolean; content: AnnotatedContent };
+    /** the content of the responses by status code, or by range (`2XX`) or `default` */
+    responses: Record<string, AnnotatedContent>;
+};
+
+/**
+ * Loads all operations of the given spec file, together with the skunkteam types of the `x-skunkteam-type` annotations of their
+ * parameters, request bodies and responses. `$ref`s to other spec files are followed, so annotations are resolved relative to the spec file
+ * they are in.
+ */
+export async function loadOperations(specFile: string) {
+    const $refs = await new SwaggerParser().resolve(specFile);
+    const main = path.resolve(specFile);
+    const api = $refs.get(main) as OpenAPIV3.Document;
+    const operations: SpecOperation[] = [];
+
+    for (const [pathName, pathRef] of Object.entries(api.paths ?? {})) {
+        const pathItem = resolve<OpenAPIV3.PathItemObject>(pathRef, { file: main, pointer: `/paths/${escape(pathName)}` });
+        if (!pathItem) continue;
+        const pathParameters = await parameters(pathItem.value.parameters, pathItem);
+        for (const method of HTTP_METHODS) {
+            const operation = resolve<OpenAPIV3.OperationObject>(pathItem.value[method], child(pathItem, method));
+            if (!operation) continue;
+            const operationParameters = await parameters(operation.value.parameters, child(operation, 'parameters'));
+            const requestBody = resolve<OpenAPIV3.RequestBodyObject>(operation.value.requestBody, child(operation, 'requestBody'));
+            const responses: SpecOperation['responses'] = {};
+            for (const [status, responseRef] of Object.entries(operation.value.responses ?? {})) {
+                const response = resolve<OpenAPIV3.ResponseObject>(responseRef, child(operation, 'responses', status));
+                responses[status] = response ? await content(response.value.content, child(response, 'content')) : {};
+            }
+            operations.push({
+                path: pathName,
+                method,
+                operationId: operation.value.operationId,
+                summary: operation.value.summary,
+                // operation parameters override path item parameters with the same name and location
+                parameters: [
+                    ...pathParameters.filter(p => !operationParameters.some(o => o.name === p.name && o.in === p.in)),
+                    ...operationParameters,
+                ],
+                requestBody: requestBody && {
+                    required: !!requestBody.value.required,
+                    content: await content(requestBody.value.content, child(requestBody, 'content')),
+                },
+                responses,
+            });
+        }
+    }
+    return { servers: api.servers ?? [], operations };
+
+    async function parameters(refs: Array<OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject> | undefined, parent: Location) {
+        const result: SpecParameter[] = [];
+        for (const [index, ref] of (refs ?? []).entries()) {
+            const parameter = resolve<OpenAPIV3.ParameterObject>(ref, child(parent, 'parameters', index));
+            if (!parameter) continue;
+            const { name, in: location, required, schema } = parameter.value;
+            result.push({
+                name,
+                in: location,
+                required: !!required,
+                schema: resolve<OpenAPIV3.SchemaObject>(schema, child(parameter, 'schema'))?.value,
+                type: await annotatedType(schema, child(parameter, 'schema')),
+            });
+        }
+        return result;
+    }
+
+    async function content(mediaTypes: Record<string, OpenAPIV3.MediaTypeObject> | undefined, parent: Location) {
+        const result: AnnotatedContent = {};
+        for (const [mediaType, { schema }] of Object.entries(mediaTypes ?? {})) {
+            result[mediaType] = await annotatedType(schema, child(parent, mediaType, 'schema'));
+        }
+        return result;
+    }
+
+    // the type of the annotation of a schema, a schema can be annotated itself or be a `$ref` to an annotated schema
+    async function annotatedType(schema: unknown, location: Location): Promise<AnnotatedType | undefined> {
+        const annotation = isObject(schema) ? schema['x-skunkteam-type'] : undefined;
+        if (typeof annotation === 'string') {
+            return loadAnnotatedType(annotation, location.file, location.pointer);
+        }
+        if (isReference(schema)) {
+            const target = resolve<unknown>(schema, location);
+            return target && annotatedType(target.value, target);
+        }
+        return undefined;
+    }
+
+    // follows any (chain of) `$ref`s and returns the value together with its location
+    function resolve<T>(value: T | OpenAPIV3.ReferenceObject | undefined, location: Location): Resolved<T> | undefined {
+        while (isReference(value)) {
+            const [refFile, pointer = ''] = value.$ref.split('#');
+            location = { file: refFile ? path.resolve(path.dirname(location.file), refFile) : location.file, pointer };
+            value = $refs.get(`${location.file}#${pointer}`) as T | OpenAPIV3.ReferenceObject;
+        }
+        return value === undefined ? undefined : { ...location, value };
+    }
+}
+
+type Location = { file: string; pointer: string };
+type Resolved<T> = Location & { value: T };
+
+function child(parent: Location, ...keys: Array<string | number>): Location {
+    return { file: parent.file, pointer: parent.pointer + keys.map(key => `/${escape(String(key))}`).join('') };
+}
+
+function escape(key: string) {
+    return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && !!value;
+}
+
+function isReference(value: unknown): value is OpenAPIV3.ReferenceObject {
+    return isObject(value) && typeof value['$ref'] === 'string';
+}
@@ -0,0 +1,29 @@
+import { string } from '@skunkteam/types';
+import assert from 'assert';
+import { test } from 'node:test';
+import { findTypeMapping, registerTypeMapping } from './type-mappings';
+
+const Uuid = string.withConstraint('Uuid', (s: string) => /^[\da-f]{8}(-[\da-f]{4}){3}-[\da-f]{12}$/.test(s));
+const UserId = Uuid.withBrand('UserId');
+const Email = string.withConstraint('Email', (s: string) => s.includes('@'));
+const WorkEmail = Email.withBrand('WorkEmail');
+
+registerTypeMapping(Uuid, 'uuid');
+registerTypeMapping(/Email$/, { format: 'email', keywords: { example: 'john@email.com' } });
+registerTypeMapping('WorkEmail', { keywords: { description: 'an email address at work' } });
+
+test('a mapping registered for a type applies to the type and the types derived from it', () => {
+    assert.deepStrictEqual(findTypeMapping(Uuid), { format: 'uuid' });
+    assert.deepStrictEqual(findTypeMapping(UserId), { format: 'uuid' });
+    assert.strictEqual(findTypeMapping(string), undefined);
+});
+
+test('a mapping registered by name applies to all types with a matching name, the last registered one wins', () => {
+    assert.deepStrictEqual(findTypeMapping(Email), { format: 'email', keywords: { example: 'john@email.com' } });
+    assert.deepStrictEqual(findTypeMapping(WorkEmail), { keywords: { description: 'an email address at work' } });
+});
+
+test('a mapping registered for a type takes precedence over mappings registered by name', () => {
+    const LegacyUuid = Uuid.withBrand('LegacyUuidEmail');
+    assert.deepStrictEqual(findTypeMapping(LegacyUuid), { format: 'uuid' });
+});
@@ -0,0 +1,43 @@
+import type { Type } from '@skunkteam/types';
+import type { OpenAPIV3 } from 'openapi-types';
+
+/** How a (custom) skunkteam/type should be represented in the generated OpenAPI schema */
+export type TypeMapping = {
+    /** the OpenAPI `format` of the schema, for example `date`, `email` or `uuid` */
+    format?: string;
+    /** additional OpenAPI keywords that are added to the generated schema */
+    keywords?: Omit<OpenAPIV3.BaseSchemaObject, 'title'>;
+    /** full replacement of the generated schema, the type itself is not inspected when this is given */
+    schema?: OpenAPIV3.SchemaObject;
+};
+
+/** Matches either a specific skunkteam/type (and all types derived from it) or the name of a type */
+export type TypeMatcher = Type<unknown, unknown> | RegExp | string;
+
+const registry: Array<{ matcher: TypeMatcher; mapping: TypeMapping }> = [];
+
+/**
+ * Registers how types should be represented in the generated OpenAPI schemas. A string mapping is shorthand for `{ format }`.
+ *
+ * @example
+ * registerTypeMapping(ISODate, 'date');
+ * registerTypeMapping(/^Uuid/, { format: 'uuid', keywords: { example: '4b1ea1a5-5a8f-4e35-8b50-0a3b1e6c3c1f' } });
+ */
+export function registerTypeMapping(matcher: TypeMatcher, mapping: TypeMapping | string) {
+    registry.push({ matcher, mapping: typeof mapping === 'string' ? { format: mapping } : mapping });
+}
+
+/**
+ * Returns the registered mapping for the given type. Mappings registered for the type itself (or a type it was derived from) take
+ * precedence over mappings registered by name. When multiple mappings match, the last registered one wins.
+ */
+export function findTypeMapping(type: Type<unknown, unknown>): TypeMapping | undefined {
+    const candidates = [...registry].reverse();
+    for (let current: unknown = type; current && current !== Object.prototype; current = Object.getPrototypeOf(current)) {
+        const found = candidates.find(({ matcher }) => matcher === current);
+        if (found) return found.mapping;
+    }
+    return candidates.find(({ matcher }) =>
+        typeof matcher === 'string' ? matcher === type.name : matcher instanceof RegExp && matcher.test(type.name),
+    )?.mapping;
+}
@@ -0,0 +1,181 @@
+import assert from 'assert';
+import { promises } from 'fs';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { test } from 'node:test';
+import path from 'path';
+import { createValidationMiddleware, expressValidationMiddleware, Problem, ValidationMiddleware } from './validation-middleware';
+
+const SPEC = `
+openapi: 3.0.3
+info: { title: toys, version: '1' }
+servers: [{ url: 'https://toys.example.com/v1' }]
+paths:
+  /pets/{petId}/toys:
+    post:
+      parameters:
+        - { name: petId, in: path, required: true, schema: { x-skunkteam-type: ./types.ts#PetId } }
+        - { name: tags, in: query, schema: { x-skunkteam-type: ./types.ts#Tags } }
+        - { name: X-Request-Id, in: header, required: true, schema: { type: string } }
+      requestBody:
+        required: true
+        content: { application/json: { schema: { x-skunkteam-type: ./types.ts#Toy } } }
+      responses:
+        '200':
+          description: the toy
+          content: { application/json: { schema: { x-skunkteam-type: ./types.ts#Toy } } }
+`;
+
+const TYPES = `import { array, int, object, string } from '@skunkteam/types';
+export const PetId = int;
+export const Tags = array(string);
+export const Toy = object('Toy', { name: string });
+`;
+
+type Handler = (req: IncomingMessage & { body?: unknown }, res: ServerResponse) => void;
+type Response = { status: number; contentType?: string; body: unknown };
+
+const TOY_PATH = '/v1/pets/1/toys?tags=ball&tags=bone';
+const HEADERS = { 'x-request-id': 'r1', 'content-type': 'application/json' };
+
+test('invalid requests result in a 400 problem details response', async () => {
+    await withSpec(async specFile => {
+        const validate = await createValidationMiddleware(specFile);
+        const bodies: unknown[] = [];
+        await withServer(validate, sendJson(bodies), async send => {
+            assert.deepStrictEqual(await send('POST', TOY_PATH, HEADERS, { name: 'ball' }), {
+                status: 200,
+                contentType: 'application/json',
+                body: { name: 'ball' },
+            });
+            assert.deepStrictEqual(bodies, [{ name: 'ball' }]);
+
+            const invalidBody = await send('POST', TOY_PATH, HEADERS, { name: 1 });
+            assert.strictEqual(invalidBody.status, 400);
+            assert.strictEqual(invalidBody.contentType, 'application/problem+json');
+            assert.strictEqual((invalidBody.body as Problem).detail, 'request body does not match Toy');
+            assert.ok((invalidBody.body as Problem).errors.length);
+
+            const invalidParameters = await send('POST', '/v1/pets/rex/toys', { 'content-type': 'application/json' }, { name: 'ball' });
+            assert.strictEqual(invalidParameters.status, 400);
+            assert.strictEqual(invalidParameters.contentType, 'application/problem+json');
+            const { detail, errors } = invalidParameters.body as Problem;
+            assert.strictEqual(detail, 'request parameters do not match the spec');
+            assert.ok(errors.some(error => error.startsWith('path parameter petId: ')));
+            assert.ok(errors.includes('header parameter X-Request-Id is required'));
+            assert.deepStrictEqual(bodies, [{ name: 'ball' }]);
+        });
+    });
+});
+
+test('an invalid response is replaced, also when the handler called writeHead or flushHeaders', async () => {
+    await withSpec(async specFile => {
+        const invalid: Problem[] = [];
+        const validate = await createValidationMiddleware(specFile, {
+            validateResponses: true,
+            onInvalidResponse: problem => invalid.push(problem),
+        });
+        const handler: Handler = (_req, res) => {
+            res.writeHead(200, { 'content-type': 'application/json' });
+            res.end(JSON.stringify({ title: 'ball' }));
+        };
+        await withServer(validate, handler, async send => {
+            const response = await send('POST', TOY_PATH, HEADERS, { name: 'ball' });
+            assert.strictEqual(response.status, 500);
+            assert.strictEqual(response.contentType, 'application/problem+json');
+            assert.strictEqual((response.body as Problem).detail, 'response body does not match Toy');
+            assert.deepStrictEqual(invalid, [response.body]);
+        });
+
+        // `flushHeaders` writes the head with `writeHead`, so it is deferred as well
+        const flushing: Handler = (_req, res) => {
+            res.setHeader('content-type', 'application/json');
+            res.flushHeaders();
+            res.end(JSON.stringify({ title: 'ball' }));
+        };
+        await withServer(validate, flushing, async send => {
+            const response = await send('POST', TOY_PATH, HEADERS, { name: 'ball' });
+            assert.strictEqual(response.status, 500);
+            assert.strictEqual(invalid.length, 2);
+        });
+    });
+});
+
+test('the express middleware uses the parsed body and passes loading errors on', async () => {
+    await withSpec(async specFile => {
+        const bodies: unknown[] = [];
+        const express = expressValidationMiddleware(specFile);
+        // like `express.json()`, the body is parsed before the middleware is called
+        const parsed: ValidationMiddleware = async (req, res, next) => {
+            req.body = { name: 'bone' };
+            express(req, res, next);
+        };
+        await withServer(parsed, sendJson(bodies), async send => {
+            assert.strictEqual((await send('POST', TOY_PATH, { 'x-request-id': 'r1' })).status, 200);
+            assert.deepStrictEqual(bodies, [{ name: 'bone' }]);
+        });
+        const missing = expressValidationMiddleware(path.join(path.dirname(specFile), 'missing.yml'));
+        const error = await new Promise(resolve => missing({} as IncomingMessage, {} as ServerResponse, resolve));
+        assert.ok(error instanceof Error);
+    });
+});
+
+// writes the spec and its types module next to this file, so the types module resolves @skunkteam/types like the other modules
+async function withSpec(fn: (specFile: string) => Promise<void>) {
+    const dir = await promises.mkdtemp(path.join(__dirname, '.validation-'));
+    try {
+        await promises.writeFile(path.join(dir, 'types.ts'), TYPES, 'utf8');
+        await promises.writeFile(path.join(dir, 'openapi.yml'), SPEC, 'utf8');
+        await fn(path.join(dir, 'openapi.yml'));
+    } finally {
+        await promises.rm(dir, { recursive: true, force: true });
+    }
+}
+
+// responds with the (validated) request body
+function sendJson(bodies: unknown[]): Handler {
+    return (req, res) => {
+        bodies.push(req.body);
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify(req.body));
+    };
+}
+
+async function withServer(
+    validate: ValidationMiddleware,
+    handler: Handler,
+    fn: (send: (method: string, url: string, headers: Record<string, string>, body?: unknown) => Promise<Response>) => Promise<void>,
+) {
+    const server = http.createServer((req, res) =>
+        validate(req, res, err => {
+            if (!err) return handler(req, res);
+            res.statusCode = 500;
+            res.end(String(err));
+        }),
+    );
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+        await fn(
+            (method, url, headers, body) =>
+                new Promise<Response>((resolve, reject) => {
+                    const req = http.request({ port, host: '127.0.0.1', method, path: url, headers }, res => {
+                        const chunks: Buffer[] = [];
+                        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+                        res.on('end', () => {
+                            const text = Buffer.concat(chunks).toString('utf8');
+                            resolve({
+                                status: res.statusCode ?? 0,
+                                contentType: res.headers['content-type'],
+                                body: text && JSON.parse(text),
+                            });
+                        });
+                    });
+                    req.on('error', reject);
+                    req.end(body === undefined ? undefined : JSON.stringify(body));
+                }),
+        );
+    } finally {
+        await new Promise(resolve => server.close(resolve));
+    }
+}
@@ -0,0 +1,301 @@
+import { ArrayType, Type, ValidationError } from '@skunkteam/types';
+import type { IncomingMessage, OutgoingHttpHeaders, ServerResponse } from 'http';
+import { castArray } from 'lodash';
+import type { OpenAPIV3 } from 'openapi-types';
+import { pathParameterNames } from './parameter-expander';
+import type { AnnotatedType } from './spec-generator';
+import { AnnotatedContent, loadOperations, SpecOperation, SpecParameter } from './spec-operations';
+
+export type ValidationOptions = {
+    /** also validate the (json) responses, an invalid response is replaced by a 500 response (when its headers were not sent yet) */
+    validateResponses?: boolean;
+    /** the path that all paths of the spec are relative to, defaults to the path of the first server of the spec */
+    basePath?: string;
+    /** called for every response that does not match its annotated type */
+    onInvalidResponse?: (problem: Problem, req: IncomingMessage) => void;
+};
+
+/** A problem details object (RFC 7807) that lists the validation messages of skunkteam/types */
+export type Problem = { type: string; title: string; status: number; detail: string; errors: string[] };
+
+export type ValidationRequest = IncomingMessage & { body?: unknown; originalUrl?: string };
+export type ValidationMiddleware = (req: ValidationRequest, res: ServerResponse, next: (err?: unknown) => void) => Promise<void>;
+
+type Route = { operation: SpecOperation; pattern: RegExp; parameterCount: number };
+
+/**
+ * Creates a (plain node http) middleware that validates the parameters and request bodies, and optionally the responses, of the operations
+ * in the given spec file using the skunkteam types of their `x-skunkteam-type` annotations. Request bodies are parsed with `construct` and
+ * replace `req.body`. A missing required parameter, a path, query or header parameter that does not match its annotated type, or an invalid
+ * request body results in a 400 problem details response. Requests that do not match an operation of the spec are passed on untouched.
+ *
+ * @example
+ * const validate = await createValidationMiddleware('./openapi.yml');
+ * http.createServer((req, res) => validate(req, res, err => (err ? fail(res, err) : handle(req, res))));
+ */
+export async function createValidationMiddleware(specFile: string, options: ValidationOptions = {}): Promise<ValidationMiddleware> {
+    const { servers, operations } = await loadOperations(specFile);
+    const basePath = trimSlash(options.basePath ?? serverPath(servers[0]));
+    // paths without parameters take precedence over templated paths, e.g. `/pets/mine` over `/pets/{petId}`
+    const routes = operations
+        .map(operation => ({ operation, ...pathPattern(basePath + operation.path) }))
+        .sort((a, b) => a.parameterCount - b.parameterCount);
+
+    return async (req, res, next) => {
+        try {
+            const url = requestUrl(req);
+            const route = findRoute(routes, req, url);
+            if (!route) return next();
+            const { operation } = route;
+            if (!validateParameters(req, res, route, url)) return;
+            if (operation.requestBody && !(await validateRequestBody(req, res, operation.requestBody))) return;
+            if (options.validateResponses) {
+                interceptResponse(req, res, operation, options);
+            }
+            next();
+        } catch (e) {
+            next(e);
+        }
+    };
+}
+
+/**
+ * Express compatible version of `createValidationMiddleware`. The spec is loaded in the background, requests wait until it is loaded and
+ * loading errors are passed to the error handlers of express.
+ */
+export function expressValidationMiddleware(specFile: string, options: ValidationOptions = {}) {
+    const middleware = createValidationMiddleware(specFile, options);
+    return (req: ValidationRequest, res: ServerResponse, next: (err?: unknown) => void) => {
+        middleware.then(validate => validate(req, res, next), next);
+    };
+}
+
+// express strips the path of the router from `url`, `originalUrl` is the complete url
+function requestUrl(req: ValidationRequest) {
+    return new URL(req.originalUrl ?? req.url ?? '/', 'http://localhost');
+}
+
+function findRoute(routes: Route[], req: ValidationRequest, url: URL) {
+    const method = req.method?.toLowerCase();
+    return routes.find(route => route.operation.method === method && route.pattern.test(url.pathname));
+}
+
+/** validates the parameters (their presence and annotated types), sends a 400 response and returns false when a parameter is invalid */
+function validateParameters(req: ValidationRequest, res: ServerResponse, { operation, pattern }: Route, url: URL) {
+    const pathNames = pathParameterNames(operation.path);
+    const pathValues = pattern.exec(url.pathname)?.slice(1) ?? [];
+    const errors: string[] = [];
+    for (const parameter of operation.parameters) {
+        const values = parameterValues(parameter, req, url, pathValues[pathNames.indexOf(parameter.name)]);
+        if (!values.length) {
+            if (parameter.required) errors.push(`${parameter.in} parameter ${parameter.name} is required`);
+            continue;
+        }
+        if (!parameter.type) continue;
+        try {
+            parameter.type.type.construct(parameterValue(values, parameter.in, parameter.type.type));
+        } catch (e) {
+            if (!(e instanceof ValidationError)) throw e;
+            errors.push(...validationMessages(e).map((message: string) => `${parameter.in} parameter ${parameter.name}: ${message}`));
+        }
+    }
+    if (!errors.length) return true;
+    sendProblem(res, problem(400, 'request parameters do not match the spec', errors));
+    return false;
+}
+
+// the values of the parameter in the request, cookie parameters are not validated
+function parameterValues({ name, in: location }: SpecParameter, req: IncomingMessage, url: URL, pathValue: string | undefined) {
+    switch (location) {
+        case 'path':
+            return pathValue === undefined ? [] : [decodePathValue(pathValue)];
+        case 'query':
+            return url.searchParams.getAll(name);
+        case 'header': {
+            const value = req.headers[name.toLowerCase()];
+            return value === undefined ? [] : castArray(value);
+        }
+        default:
+            return [];
+    }
+}
+
+function decodePathValue(value: string) {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+// parameters are strings, they are converted to the basic type of the annotated type (e.g. a number) before they are validated, arrays are
+// repeated query parameters (`?id=1&id=2`) or comma separated values
+function parameterValue(values: string[], location: string, type: Type<unknown>): unknown {
+    if (type instanceof ArrayType) {
+        const items = location === 'query' ? values : values.flatMap(value => value.split(','));
+        return items.map(item => scalarValue(item, type.elementType.basicType));
+    }
+    return scalarValue(values[0] ?? '', type.basicType);
+}
+
+// values that cannot be converted are left as they are, so the validation message shows the original value
+function scalarValue(value: string, basicType: string) {
+    if (basicType === 'number' && value.trim() && !Number.isNaN(Number(value))) return Number(value);
+    if (basicType === 'boolean' && (value === 'true' || value === 'false')) return value === 'true';
+    return value;
+}
+
+/** validates (and constructs) the request body, sends a 400 response and returns false when the request body is invalid */
+async function validateRequestBody(req: ValidationRequest, res: ServerResponse, requestBody: NonNullable<SpecOperation['requestBody']>) {
+    const mediaType = req.headers['content-type'];
+    const annotated = findContent(requestBody.content, mediaType);
+    if (!annotated) return true;
+    let body = req.body;
+    if (body === undefined) {
+        // no body parser was used, read and parse the body ourselves
+        const text = await readBody(req);
+        if (text) {
+            try {
+                body = JSON.parse(text);
+            } catch (e) {
+                sendProblem(res, problem(400, 'request body is not valid json', [String(e)]));
+                return false;
+            }
+        }
+    }
+    if (body === undefined) {
+        if (!requestBody.required) return true;
+        sendProblem(res, problem(400, 'request body is required', []));
+        return false;
+    }
+    try {
+        req.body = annotated.type.construct(body);
+        return true;
+    } catch (e) {
+        if (!(e instanceof ValidationError)) throw e;
+        sendProblem(res, problem(400, `request body does not match ${annotated.typeName}`, validationMessages(e)));
+        return false;
+    }
+}
+
+/**
+ * buffers the response, so it can be validated (and replaced when invalid) once it is complete, the status and headers of `writeHead` (which
+ * is also used by `flushHeaders`) are only sent together with the validated body
+ */
+function interceptResponse(req: IncomingMessage, res: ServerResponse, operation: SpecOperation, options: ValidationOptions) {
+    const chunks: Buffer[] = [];
+    const { writeHead, write, end } = res;
+    const collect = (chunk: unknown, encoding?: unknown) => {
+        if (chunk === undefined || chunk === null || typeof chunk === 'function') return;
+        const charset = typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8';
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string, charset));
+    };
+    res.writeHead = ((statusCode: number, statusMessage?: unknown, headers?: unknown) => {
+        res.statusCode = statusCode;
+        if (typeof statusMessage === 'string') res.statusMessage = statusMessage;
+        setHeaders(res, (typeof statusMessage === 'string' ? headers : statusMessage) as OutgoingHttpHeaders | unknown[] | undefined);
+        return res;
+    }) as typeof res.writeHead;
+    res.write = ((chunk: unknown, encoding?: unknown, callback?: unknown) => {
+        collect(chunk, encoding);
+        const done = typeof encoding === 'function' ? encoding : callback;
+        if (typeof done === 'function') process.nextTick(done);
+        return true;
+    }) as typeof res.write;
+    res.end = ((chunk?: unknown, encoding?: unknown, callback?: unknown) => {
+        collect(chunk, encoding);
+        const done = [chunk, encoding, callback].find(arg => typeof arg === 'function') as (() => void) | undefined;
+        res.writeHead = writeHead;
+        res.write = write;
+        res.end = end;
+        let body = Buffer.concat(chunks);
+        const invalid = body.length ? validateResponseBody(res, operation, body) : undefined;
+        if (invalid) {
+            options.onInvalidResponse?.(invalid, req);
+            if (!res.headersSent) {
+                body = Buffer.from(JSON.stringify(invalid));
+                res.statusCode = invalid.status;
+                res.setHeader('content-type', 'application/problem+json');
+                res.setHeader('content-length', body.length);
+            }
+        }
+        return done ? res.end(body, done) : res.end(body);
+    }) as typeof res.end;
+}
+
+// the headers of `writeHead`, as an object or as a list of names and values
+function setHeaders(res: ServerResponse, headers: OutgoingHttpHeaders | unknown[] | undefined) {
+    const entries = Array.isArray(headers)
+        ? headers.flat().flatMap((name, i, flat) => (i % 2 ? [] : [[String(name), flat[i + 1]] as const]))
+        : Object.entries(headers ?? {});
+    for (const [name, value] of entries) {
+        if (value !== undefined) res.setHeader(name, value as string | number | string[]);
+    }
+}
+
+/** returns a problem when the response body does not match the type of the annotation of the response */
+function validateResponseBody(res: ServerResponse, operation: SpecOperation, body: Buffer): Problem | undefined {
+    const status = String(res.statusCode);
+    const content = operation.responses[status] ?? operation.responses[`${status[0]}XX`] ?? operation.responses['default'];
+    const annotated = content && findContent(content, res.getHeader('content-type')?.toString());
+    if (!annotated) return;
+    try {
+        annotated.type.check(JSON.parse(body.toString('utf8')));
+        return;
+    } catch (e) {
+        const messages = e instanceof ValidationError ? validationMessages(e) : [String(e)];
+        return problem(500, `response body does not match ${annotated.typeName}`, messages);
+    }
+}
+
+// the annotated type of the content of the given media type, only json content is validated
+function findContent(content: AnnotatedContent, mediaType = 'application/json'): AnnotatedType | undefined {
+    const essence = mediaType.split(';')[0]?.trim().toLowerCase() ?? '';
+    if (!/^application\/(.+\+)?json$/.test(essence)) return;
+    const [type] = essence.split('/');
+    return content[essence] ?? content[`${type}/*`] ?? content['*/*'];
+}
+
+async function readBody(req: IncomingMessage) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+function problem(status: 400 | 500, detail: string, errors: string[]): Problem {
+    return { type: 'about:blank', title: status === 400 ? 'Bad Request' : 'Internal Server Error', status, detail, errors };
+}
+
+function sendProblem(res: ServerResponse, problem: Problem) {
+    const body = JSON.stringify(problem);
+    res.writeHead(problem.status, { 'content-type': 'application/problem+json', 'content-length': Buffer.byteLength(body) });
+    res.end(body);
+}
+
+// the messages of skunkteam/types, one for every problem with the input
+function validationMessages(error: ValidationError) {
+    return error.message
+        .split('\n')
+        .map(line => line.trim().replace(/^- /, ''))
+        .filter(Boolean);
+}
+
+// `/pets/{petId}` becomes /^\/pets\/([^/]+)$/, with a group for the value of every path parameter
+function pathPattern(template: string) {
+    const parts = template.split(/\{[^}]+\}/);
+    const source = parts.map(part => part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')).join('([^/]+)');
+    return { pattern: new RegExp(`^${source}/?$`), parameterCount: parts.length - 1 };
+}
+
+// the path of the url of a server, using the default values of its variables
+function serverPath(server?: OpenAPIV3.ServerObject) {
+    if (!server) return '';
+    const url = server.url.replace(/\{([^}]+)\}/g, (_, name: string) => server.variables?.[name]?.default ?? '');
+    return new URL(url, 'http://localhost').pathname;
+}
+
+function trimSlash(basePath: string) {
+    return basePath.replace(/\/+$/, '');
+}